@@ -14,12 +14,66 @@ import {
   Legend,
 } from 'chart.js'
 import { BookOpen, Settings, ClipboardList, BarChart3, Home, RotateCcw } from 'lucide-react'
-import { useExperimentStore, SubImage, DrawableArea } from './store'
+import { useExperimentStore, SubImage, DrawableArea, ObservationRecord } from './store'
+import { ANTAGONISTS, ANTICHOLINESTERASES, COMBINATION_RATIOS, DEFAULT_AGONIST_ID, INTERACTION_MODELS, InteractionModel, RESPONSE_CEILING, calculateEmaxFraction, calculateResponse, calculateSensitivity, computeLinearFit, describeCombination, describeTreatment, effectiveExposures, effectiveKinetics, exposedSinceWash, findAgonist, findAgonistProfile, findAntagonist, findAnticholinesterase, groupByTreatment, isobologramAnalysis, potentiationAnalysis, preparationAgonists, schildAnalysis, stockPotency, StockStorage } from '../lib/pharmacology'
+import { CONTACT_TIMES, DRUM_SPEEDS, SIMULATION_MS_PER_SECOND, drumPxPerSecond, contractionProgress, relaxationDuration, relaxationProgress, simulatedMinutes } from '../lib/kinetics'
+import { CHANNEL_ROLES, ChannelRole, RecordingChannel, addChannel, channelFullScale, channelObservations, channelSeed, channelTissue, isLever, removeChannel } from '../lib/channels'
+import { CLOCK_RATES, clockTime, drumSeconds, formatClock, updateClock } from '../lib/clock'
+import { LOAD_ARM, MAGNIFICATIONS, MAX_ROTATION_ANGLE, leverCalibration, penRise } from '../lib/lever'
+import {
+  ASSAY_DOSES, AssayDesign, AssayDoseLabel, bracketUnknown, combineEstimates, drawUnknownConcentration,
+  latinSquare, parallelLineAssay, percentError, UnknownSample
+} from '../lib/bioassay'
+import { BATH_TEMPERATURES, BathConditions, CALCIUM_CONCENTRATIONS, SOLUTIONS, bathEffect, elapsedHypoxicMinutes, findSolution } from '../lib/bath'
+import { EQUILIBRATION_MINUTES, baselineDrift, fatigueFactor } from '../lib/fatigue'
+import { PREPARATIONS, findPreparation } from '../lib/preparations'
+import { RHYTHM_MODULATORS, findRhythmModulator, hasRhythm, rhythmModulation, spontaneousContraction } from '../lib/rhythm'
+import { OVERDOSE_VOLUMES, USABLE_RESPONSIVENESS, addInjury, contractureTone, describeToxicEvent, isToxic, overdoseStocks, recoverOnWash, tissueResponsiveness, toxicInjury } from '../lib/toxicity'
+import { AreaTrace, EMPTY_TRACE, GRID_SPACING, MAJOR_TIME_MARK, RecordingEvent, TIME_MARK_INTERVAL, TraceLabel, TracePoint, appendLabel, appendMarks, appendSample, drawEventMark, drawEvents, drawLabel, drawPaper, drawSegment, drawTimeMark, drawTrace, lastEventX, lastMark, lastSample, mergeTraces, timeMarksBetween } from '../lib/trace'
+import { CALIBRATION_HOLD, CALIBRATION_WEIGHTS, DEFAULT_CALIBRATION_WEIGHT, ForceSample, RecordingMode, SAMPLE_INTERVAL, signalToGrams, transducerSensitivity } from '../lib/transducer'
+import { CONCENTRATION_UNITS, ConcentrationUnit, convertConcentration, formatConcentration, linearAxisLabel, linearUnit, logAxisLabel, logConcentration, toMicrogramsPerMl } from '../lib/units'
+import { VariabilityConfig, drawTissueProfile, responseNoise } from '../lib/variability'
 
 ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend)
 
-const ORGAN_BATH_VOLUME = 20
-const MAX_ROTATION_ANGLE = 20
+type ExperimentSnapshot = ReturnType<typeof useExperimentStore.getState>
+
+// Fraction of the tissue's spontaneous rhythm left: relaxants, non-specific
+// blockers such as papaverine and poor bath conditions all damp it
+const rhythmAmplitudeFactor = (
+  state: Pick<ExperimentSnapshot, 'preparationId' | 'bathConditions' | 'hypoxicMinutes' | 'unaeratedSince' | 'selectedAntagonist' | 'antagonistConcentration' | 'selectedRhythmModulator' | 'rhythmModulatorConcentration'>,
+  at: number
+) => {
+  const preparation = findPreparation(state.preparationId)
+  const bath = bathEffect(state.bathConditions, preparation, elapsedHypoxicMinutes(state.hypoxicMinutes, state.unaeratedSince, at))
+  const blockade = calculateEmaxFraction(state.selectedAntagonist, state.antagonistConcentration, preparation.primaryAgonistId, preparation.id)
+  return rhythmModulation(state.selectedRhythmModulator, state.rhythmModulatorConcentration) * blockade * bath.emaxFactor
+}
+
+// Spontaneous activity as a lever rotation at lab-clock time `at`, drawn on
+// top of the tonic lever position
+const spontaneousRotation = (state: ExperimentSnapshot, at: number) =>
+  -(spontaneousContraction(state.rhythm, (at - state.mountedAt) / SIMULATION_MS_PER_SECOND, rhythmAmplitudeFactor(state, at)) / 100) * MAX_ROTATION_ANGLE
+
+// Transducer output (mV) for a tension given as the equivalent lever rotation
+const transducerSignal = (state: ExperimentSnapshot, rotation: number) =>
+  -(rotation / MAX_ROTATION_ANGLE) * findPreparation(state.preparationId).maxForce * transducerSensitivity(state.seed)
+
+// The experiment as a channel's tissue sees it: a control gets the agonist
+// doses only, none of the drugs given to the test
+const channelSnapshot = (state: ExperimentSnapshot, channel: RecordingChannel): ExperimentSnapshot =>
+  channel.role === 'control'
+    ? { ...state, selectedAntagonist: null, selectedAnticholinesterase: null, selectedSecondAgonist: null, selectedRhythmModulator: null }
+    : state
+
+// Simulated seconds of physiograph shown while recording
+const PHYSIOGRAPH_WINDOW = 300
+
+// Scale of the kymograph traces on the Observation tab
+const RECORDING_SCALE = 0.8
+
+// Wall ms between saves of what the turning drum has drawn
+const COMMIT_INTERVAL = 2000
 
 export default function Exp1Page() {
   const {
@@ -28,28 +82,61 @@ export default function Exp1Page() {
     imageData, setImageData,
     experimentRunning, setExperimentRunning,
     selectedBaseline, setSelectedBaseline,
+    stockPreparedAt, stockStorage, setStockStorage, prepareFreshStock,
+    bathConditions, setBathConditions, hypoxicMinutes, unaeratedSince,
+    mountedAt, mountFreshPreparation,
+    rhythm, setRhythm,
+    selectedRhythmModulator, setSelectedRhythmModulator,
+    rhythmModulatorConcentration, setRhythmModulatorConcentration,
     selectedConcentration, setSelectedConcentration,
-    currentLeverRotation, setCurrentLeverRotation,
+    channels, setChannels,
     observations, setObservations,
     autoScroll, setAutoScroll,
+    concentrationUnit, setConcentrationUnit,
     currentGraphX, setCurrentGraphX,
     maxResponse, setMaxResponse,
-    canvasData, setCanvasData,
+    traces, setTraces, events, setEvents,
     canvasWidths, setCanvasWidths,
+    recordingMode, setRecordingMode,
+    forceTrace, setForceTrace, calibration,
     resetExperiment: resetStore,
-    flowStep, setFlowStep,
-    isAutoSample, setIsAutoSample
+    flowStep,
+    isAutoSample, setIsAutoSample,
+    preparationId, setPreparation,
+    selectedAgonist, setSelectedAgonist,
+    protocol, setProtocol,
+    bathConcentration,
+    tissues,
+    seed, setSeed,
+    contactTime, setContactTime,
+    drumSpeed, setDrumSpeed,
+    magnification, setMagnification,
+    clock, setClock,
+    variability, setVariability,
+    selectedAntagonist, setSelectedAntagonist,
+    antagonistConcentration, setAntagonistConcentration,
+    selectedAnticholinesterase, setSelectedAnticholinesterase,
+    selectedSecondAgonist, setSelectedSecondAgonist,
+    combinationRatio, setCombinationRatio,
+    interactionModel, setInteractionModel,
+    unknownSample, setUnknownSample,
+    assayCount, setAssayCount,
+    assayDesign, setAssayDesign,
+    assayVolumes, setAssayVolumes
   } = useExperimentStore()
 
-  const availableBaselines = [20, 50, 100, 200, 400]
+  const preparation = findPreparation(preparationId)
+  const primaryAgonist = findAgonist(preparation.primaryAgonistId)
+  const availableBaselines = preparation.stockConcentrations
   const availableConcentrations = [0.05, 0.1, 0.2, 0.4, 0.8, 1.6]
+  // Stronger stocks offered beyond the usual range, so an overdose is possible
+  const overdoseBaselines = overdoseStocks(availableBaselines)
 
   const canvasWrapperRef = useRef<HTMLDivElement>(null)
 
   const canvasRefs = useRef<Record<string, HTMLCanvasElement>>({})
   const contextRefs = useRef<Record<string, CanvasRenderingContext2D>>({})
   const drawableAreaRefs = useRef<Record<string, HTMLDivElement>>({})
-  const animationFrameRef = useRef<number | null>(null)
 
   // UI Scale can remain local as it's derived from window size/layout
   const [scale, setScale] = useState(1)
@@ -58,8 +145,47 @@ export default function Exp1Page() {
   // Continue / Restart dialog
   const [showContinueDialog, setShowContinueDialog] = useState(false)
 
-  // Ref to store the last pen position for continuity across animations
-  const lastPenPositionRef = useRef<Record<string, { x: number; y: number }>>({})
+  // Bioassay estimate entry and result screen
+  const [assayEstimateInput, setAssayEstimateInput] = useState('')
+  const [instructorUnknownInput, setInstructorUnknownInput] = useState('')
+  const [showAssayResult, setShowAssayResult] = useState(false)
+
+  // Known weight hung on the transducer to calibrate it (g)
+  const [calibrationWeight, setCalibrationWeight] = useState(DEFAULT_CALIBRATION_WEIGHT)
+
+  // Effect level (%) at which the isobologram is drawn
+  const [isoboleEffect, setIsoboleEffect] = useState(30)
+
+  // Lab-clock tick so the tissue sensitivity indicator follows recovery after a wash
+  const [now, setNow] = useState(() => clockTime(useExperimentStore.getState().clock))
+  useEffect(() => {
+    const timer = setInterval(() => setNow(clockTime(useExperimentStore.getState().clock)), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  // Pen samples the drum has drawn since the trace was last stored, per area
+  const pendingTraceRef = useRef<Record<string, AreaTrace>>({})
+  // The dose or wash the event marker notches, until it is stored
+  const pendingEventRef = useRef<RecordingEvent | null>(null)
+  // Response written beside each channel's trace the next time its pen
+  // passes, keyed by area id
+  const pendingLabelsRef = useRef<Record<string, string>>({})
+  // The action in progress (baseline, dose, wash, calibration), stepped with
+  // the lab time on every turn of the drum; it returns true once finished
+  const actionRef = useRef<((time: number) => boolean) | null>(null)
+  // Paper the drum has carried past the pen (px), and the signal (mV) a
+  // calibration weight adds while it hangs on the transducer
+  const paperXRef = useRef(0)
+  const calibrationLoadRef = useRef(0)
+  // Tonic position (degrees) of each channel's lever, moved by the action in
+  // progress, and the physiograph samples taken since the last save. Both
+  // change every frame, so neither goes through the persisted store.
+  const leverRotationsRef = useRef<Record<string, number>>({})
+  const pendingForceRef = useRef<ForceSample[]>([])
+  // Angle each lever image is drawn at, by sub-image id
+  const [leverAngles, setLeverAngles] = useState<Record<string, number>>({})
+  // Channel whose tissue the graphs analyse; the first until one is picked
+  const [analysedChannelId, setAnalysedChannelId] = useState<string | null>(null)
 
   useEffect(() => {
     // Inject styles to hide scrollbar but keep functionality
@@ -86,15 +212,18 @@ export default function Exp1Page() {
     setToast({ message, type })
   }
 
-  // Safety reset on mount to prevent UI lock if refreshed during animation
+  // Safety reset on mount to prevent UI lock if refreshed during animation.
+  // The clock stops at its last stored reading, so the time the page was
+  // closed never passes in the bath
   useEffect(() => {
     setExperimentRunning(false)
-  }, [setExperimentRunning])
+    setClock(prev => ({ ...prev, running: false }))
+  }, [setExperimentRunning, setClock])
 
   // On mount: check if there is existing session data and ask user to continue or start fresh
   useEffect(() => {
     const state = useExperimentStore.getState()
-    const hasData = state.observations.length > 0 || Object.keys(state.canvasData).length > 0
+    const hasData = state.observations.length > 0 || Object.keys(state.traces).length > 0
     if (hasData) {
       setShowContinueDialog(true)
     }
@@ -114,14 +243,6 @@ export default function Exp1Page() {
     setShowContinueDialog(false)
   }
 
-  useEffect(() => {
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current)
-      }
-    }
-  }, [])
-
   // Scale calculation
   useEffect(() => {
     if (imageData.baseImageDimensions && canvasWrapperRef.current) {
@@ -133,7 +254,25 @@ export default function Exp1Page() {
     }
   }, [imageData.baseImageDimensions, activeTab]) // Recalculate on tab change if coming back to setup
 
-  // Initialize Canvas and Restore Data
+  // The drum reads the scale every frame without restarting
+  const scaleRef = useRef(scale)
+  useEffect(() => {
+    scaleRef.current = scale
+  }, [scale])
+
+  // Paint an area's paper and its trace: the stored samples plus whatever the
+  // drum has drawn since
+  const redrawArea = useCallback((area: DrawableArea) => {
+    const canvas = canvasRefs.current[area.id]
+    const ctx = contextRefs.current[area.id]
+    if (!canvas || !ctx) return
+    const { traces, events } = useExperimentStore.getState()
+    drawPaper(ctx, canvas.width, canvas.height, area.color)
+    drawTrace(ctx, mergeTraces(traces[area.id], pendingTraceRef.current[area.id]))
+    drawEvents(ctx, pendingEventRef.current ? [...events, pendingEventRef.current] : events, area.id)
+  }, [])
+
+  // Initialize Canvas and draw the stored trace
   useEffect(() => {
     if (activeTab === 'setup') {
       imageData.drawableAreas.forEach(area => {
@@ -149,66 +288,62 @@ export default function Exp1Page() {
           const ctx = canvas.getContext('2d')
           if (ctx) {
             contextRefs.current[area.id] = ctx
-
-            // Restore data
-            const savedData = canvasData[area.id]
-            if (savedData) {
-              const img = new Image()
-              img.src = savedData
-              img.onload = () => {
-                ctx.clearRect(0, 0, canvas.width, canvas.height)
-                ctx.drawImage(img, 0, 0)
-              }
-            } else {
-              delete lastPenPositionRef.current[area.id] // Reset persistent memory when canvas goes blank
-
-              // Initial Grid
-              ctx.fillStyle = area.color
-              ctx.fillRect(0, 0, canvas.width, canvas.height)
-              //ctx.strokeStyle = '#e0e0e0'
-              ctx.lineWidth = 1
-              for (let x = 0; x < canvas.width; x += 50) {
-                ctx.beginPath()
-                ctx.moveTo(x, 0)
-                ctx.lineTo(x, canvas.height)
-                ctx.stroke()
-              }
-              for (let y = 0; y < canvas.height; y += 50) {
-                ctx.beginPath()
-                ctx.moveTo(0, y)
-                ctx.lineTo(canvas.width, y)
-                ctx.stroke()
-              }
-            }
+            redrawArea(area)
           }
         }
       })
     }
-  }, [activeTab, imageData.drawableAreas, canvasData, canvasWidths, scale])
+  }, [activeTab, imageData.drawableAreas, traces, canvasWidths, scale, redrawArea])
 
-  // Restore Scroll Position separately to avoid clearing canvas on scroll update
+  // The Observation tab redraws the traces at its own scale, so they stay sharp;
+  // a table row can pick out its dose on them
+  const recordingCanvasRefs = useRef<Record<string, HTMLCanvasElement>>({})
+  const recordingScrollRefs = useRef<Record<string, HTMLDivElement>>({})
+  const [highlightedSNo, setHighlightedSNo] = useState<number | null>(null)
   useEffect(() => {
-    if (activeTab === 'setup') {
+    if (activeTab === 'observation') {
       imageData.drawableAreas.forEach(area => {
-        if (drawableAreaRefs.current[area.id]) {
-          drawableAreaRefs.current[area.id].scrollLeft = currentGraphX * scale
+        const canvas = recordingCanvasRefs.current[area.id]
+        const ctx = canvas?.getContext('2d')
+        if (canvas && ctx) {
+          canvas.width = (canvasWidths[area.id] || Math.max(area.scrollWidth * 5, 8000)) * RECORDING_SCALE
+          canvas.height = area.height * RECORDING_SCALE
+          drawPaper(ctx, canvas.width, canvas.height, area.color, RECORDING_SCALE)
+          drawTrace(ctx, traces[area.id] ?? EMPTY_TRACE, RECORDING_SCALE)
+          drawEvents(ctx, events, area.id, RECORDING_SCALE, highlightedSNo)
         }
       })
     }
-  }, [activeTab, imageData.drawableAreas, currentGraphX, scale])
+  }, [activeTab, imageData.drawableAreas, traces, events, canvasWidths, highlightedSNo])
+
+  const showOnRecording = (sNo: number) => {
+    const event = events.find(e => e.sNos?.includes(sNo))
+    if (!event) return
+    setHighlightedSNo(sNo)
+    imageData.drawableAreas.forEach((area, i) => {
+      const container = recordingScrollRefs.current[area.id]
+      const x = event.x[area.id]
+      if (!container || x === undefined) return
+      container.scrollLeft = x * RECORDING_SCALE - container.clientWidth / 2
+      if (i === 0) container.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    })
+  }
 
-  const handleTabChange = (newTab: 'theory' | 'setup' | 'observation' | 'graphs') => {
+  // Restore Scroll Position separately to avoid clearing canvas on scroll update.
+  // Only on coming back to the tab: the turning drum saves the paper position
+  // every few seconds, and a reader scrolling without auto-scroll keeps their place
+  useEffect(() => {
     if (activeTab === 'setup') {
-      // Save canvas data before leaving setup
-      const newCanvasData: Record<string, string> = { ...canvasData }
+      const { currentGraphX } = useExperimentStore.getState()
       imageData.drawableAreas.forEach(area => {
-        const canvas = canvasRefs.current[area.id]
-        if (canvas) {
-          newCanvasData[area.id] = canvas.toDataURL()
+        if (drawableAreaRefs.current[area.id]) {
+          drawableAreaRefs.current[area.id].scrollLeft = currentGraphX * scale
         }
       })
-      setCanvasData(newCanvasData)
     }
+  }, [activeTab, imageData.drawableAreas, scale])
+
+  const handleTabChange = (newTab: 'theory' | 'setup' | 'observation' | 'graphs') => {
     setActiveTab(newTab)
   }
 
@@ -226,361 +361,501 @@ export default function Exp1Page() {
 
 
 
-  const calculateResponse = (baseline: number, concentration: number): number => {
-    // Formula: Dose = Stock (baseline) * Volume (concentration)
-    // Bath Conc = Dose / Bath Volume
-    const dose = baseline * concentration
-    const concInBath = dose / ORGAN_BATH_VOLUME
+  const expandCanvasIfNeeded = useCallback((areaId: string, requiredWidth: number) => {
+    const canvas = canvasRefs.current[areaId]
+    const area = useExperimentStore.getState().imageData.drawableAreas.find(a => a.id === areaId)
+    if (canvas && area && requiredWidth > canvas.width - 200) {
+      // Resizing clears the canvas; the trace is redrawn from its samples
+      canvas.width = canvas.width * 2
+      redrawArea(area)
+
+      // Update store with new width so it persists
+      setCanvasWidths(prev => ({ ...prev, [areaId]: canvas.width }))
+    }
+  }, [setCanvasWidths, redrawArea])
+
+  // Moves the pen to `point`, inking the line from its last position
+  const penTo = useCallback((areaId: string, point: TracePoint) => {
+    const pending = pendingTraceRef.current[areaId] ?? EMPTY_TRACE
+    const from = lastSample(pending) ?? lastSample(useExperimentStore.getState().traces[areaId])
+    const ctx = contextRefs.current[areaId]
+    if (from && ctx) drawSegment(ctx, from, point)
+    pendingTraceRef.current[areaId] = appendSample(pending, point)
+  }, [])
+
+  const penLabel = useCallback((areaId: string, label: TraceLabel) => {
+    const ctx = contextRefs.current[areaId]
+    if (ctx) drawLabel(ctx, label)
+    pendingTraceRef.current[areaId] = appendLabel(pendingTraceRef.current[areaId] ?? EMPTY_TRACE, label)
+  }, [])
+
+  // Writes an area's pending response beside the pen
+  const writeLabel = useCallback((areaId: string, point: TracePoint) => {
+    const text = pendingLabelsRef.current[areaId]
+    if (text === undefined) return
+    penLabel(areaId, { ...point, text })
+    delete pendingLabelsRef.current[areaId]
+  }, [penLabel])
+
+  // The time marker ticks off the drum's seconds along the bottom of the
+  // paper, below the writing point (`paperX`, paper px), up to `drumTime`;
+  // `markedUpTo` keeps how far each area has been marked
+  const markTime = useCallback((areaId: string, paperX: number, drumTime: number, markedUpTo: Record<string, number>) => {
+    const pxPerSecond = drumPxPerSecond(useExperimentStore.getState().drumSpeed)
+    const marks = timeMarksBetween(markedUpTo[areaId] ?? drumTime, drumTime, t => paperX - (drumTime - t) * pxPerSecond)
+    markedUpTo[areaId] = drumTime
+    if (marks.length === 0) return
+    const pending = pendingTraceRef.current[areaId] ?? EMPTY_TRACE
+    const ctx = contextRefs.current[areaId]
+    let previous = lastMark(pending) ?? lastMark(useExperimentStore.getState().traces[areaId])
+    marks.forEach(mark => {
+      if (ctx) drawTimeMark(ctx, mark, previous)
+      previous = mark
+    })
+    pendingTraceRef.current[areaId] = appendMarks(pending, marks)
+  }, [])
+
+  // The event marker notches the pending dose or wash on an area's paper the
+  // first time the pen passes that area
+  const markEvent = useCallback((areaId: string, paperX: number) => {
+    const event = pendingEventRef.current
+    if (!event || event.x[areaId] !== undefined) return
+    const ctx = contextRefs.current[areaId]
+    if (ctx) drawEventMark(ctx, paperX, event.label, lastEventX(useExperimentStore.getState().events, areaId))
+    event.x[areaId] = Math.round(paperX * 10) / 10
+  }, [])
+
+  // Stores what the drum has drawn and the event it notched, with where the
+  // paper and the clock have got to, so a reload carries on from there. A
+  // response the pen has not reached yet stays pending for the next stretch.
+  const commitTrace = useCallback(() => {
+    const pending = pendingTraceRef.current
+    const event = pendingEventRef.current
+    pendingTraceRef.current = {}
+    pendingEventRef.current = null
+    const force = pendingForceRef.current
+    pendingForceRef.current = []
+    if (force.length > 0) setForceTrace(prev => [...prev, ...force])
+    if (event) setEvents(prev => [...prev, event])
+    setTraces(prev => {
+      const next = { ...prev }
+      Object.entries(pending).forEach(([areaId, trace]) => {
+        next[areaId] = mergeTraces(prev[areaId], trace)
+      })
+      return next
+    })
+    setCurrentGraphX(paperXRef.current)
+    setClock(prev => prev.running ? updateClock(prev, {}) : prev)
+  }, [setTraces, setEvents, setForceTrace, setCurrentGraphX, setClock])
+
+  // Hands an action to the drum, starting the clock if it was stopped
+  const startAction = useCallback((step: (time: number) => boolean) => {
+    actionRef.current = step
+    setClock(prev => prev.running ? prev : updateClock(prev, { running: true }))
+  }, [setClock])
+
+  // While the clock runs the drum turns: every frame steps the action in
+  // progress, carries the paper on at the drum speed and inks the lever's
+  // position, with the time and event markers below it
+  useEffect(() => {
+    if (!clock.running) return
+    const start = useExperimentStore.getState()
+    // Drawing not stored before a reset is dropped; the paper starts where it was left
+    pendingTraceRef.current = {}
+    pendingForceRef.current = []
+    paperXRef.current = start.currentGraphX
+    let lastTime = clockTime(start.clock)
+    let lastCommit = Date.now()
+    let sinceForceSample = 0
+    const markedUpTo: Record<string, number> = {}
+    const drawn: Record<string, number> = {}
+    let frame = 0
+
+    const turn = () => {
+      if (!useExperimentStore.getState().clock.running) return
+      const time = clockTime(useExperimentStore.getState().clock)
+      const seconds = drumSeconds(time - lastTime)
+      lastTime = time
+      if (actionRef.current?.(time)) actionRef.current = null
+
+      // Fresh state, now the action has moved the lever
+      const state = useExperimentStore.getState()
+      const isometric = state.recordingMode === 'isometric'
+      const tensions = state.channels.map(channel => (leverRotationsRef.current[channel.id] ?? 0) + spontaneousRotation(channelSnapshot(state, channel), time))
+      // The physiograph samples the first channel's tension every SAMPLE_INTERVAL of chart paper
+      sinceForceSample += seconds
+      if (isometric && tensions.length > 0 && sinceForceSample >= SAMPLE_INTERVAL) {
+        const pending = pendingForceRef.current
+        const last = pending.length > 0 ? pending[pending.length - 1].t : state.forceTrace.length > 0 ? state.forceTrace[state.forceTrace.length - 1].t : 0
+        pending.push({ t: last + sinceForceSample, signal: transducerSignal(state, tensions[0]) + calibrationLoadRef.current })
+        sinceForceSample = 0
+      }
+
+      paperXRef.current += seconds * drumPxPerSecond(state.drumSpeed)
+      const paperX = paperXRef.current
+      const drumTime = drumSeconds(time)
+
+      state.imageData.drawableAreas?.forEach(area => {
+        const canvas = canvasRefs.current[area.id]
+        if (state.autoScroll && drawableAreaRefs.current[area.id]) {
+          const maxScrollLeft = (canvas?.width || Math.max(area.scrollWidth * 5, 8000)) - area.width
+          const clampedScroll = Math.max(0, Math.min(paperX, maxScrollLeft))
+          drawableAreaRefs.current[area.id].scrollLeft = clampedScroll * scaleRef.current
+        }
+      })
+
+      // Each channel's lever writes on its own area
+      const drawnRotations: Record<string, number> = {}
+      state.channels.forEach((channel, i) => {
+        const leverImage = state.imageData.subImages.find(img => img.id === channel.leverId)
+        const area = state.imageData.drawableAreas.find(a => a.id === channel.areaId)
+        if (!leverImage || !isLever(leverImage) || !area) return
+        // An isometric transducer does not shorten: the lever stays put and the drum is not inked
+        const drawnRotation = isometric ? 0 : tensions[i]
+        if (drawn[leverImage.id] === undefined || Math.abs(drawn[leverImage.id] - drawnRotation) > 0.01) drawnRotations[leverImage.id] = drawnRotation
+
+        const penTipLocalX = leverImage.x + leverImage.penTipOffsetX
+        const penTipLocalY = leverImage.y + leverImage.penTipOffsetY
+        const rotatedPenTip = rotatePoint(penTipLocalX, penTipLocalY, leverImage.centerX, leverImage.centerY, drawnRotation)
+        const isInArea = rotatedPenTip.x >= area.x &&
+          rotatedPenTip.x <= area.x + area.width &&
+          rotatedPenTip.y >= area.y &&
+          rotatedPenTip.y <= area.y + area.height
+        if (!isInArea || isometric) return
+
+        expandCanvasIfNeeded(area.id, rotatedPenTip.x - area.x + paperX + 300)
+        const canvasX = (rotatedPenTip.x - area.x) + paperX
+        const canvasY = rotatedPenTip.y - area.y
+        writeLabel(area.id, { x: canvasX + 25, y: canvasY + 25 })
+        penTo(area.id, { x: canvasX, y: canvasY })
+        markTime(area.id, penTipLocalX - area.x + paperX, drumTime, markedUpTo)
+        markEvent(area.id, penTipLocalX - area.x + paperX)
+      })
+      if (Object.keys(drawnRotations).length > 0) {
+        Object.assign(drawn, drawnRotations)
+        setLeverAngles(prev => ({ ...prev, ...drawnRotations }))
+      }
+
+      if (Date.now() - lastCommit >= COMMIT_INTERVAL) {
+        commitTrace()
+        lastCommit = Date.now()
+      }
+      frame = requestAnimationFrame(turn)
+    }
+    frame = requestAnimationFrame(turn)
+    return () => cancelAnimationFrame(frame)
+  }, [clock.running, rotatePoint, expandCanvasIfNeeded, penTo, writeLabel, markTime, markEvent, commitTrace])
+
+  // Stopping the drum stores what it has drawn first
+  const toggleDrum = () => {
+    if (clock.running) commitTrace()
+    setClock(prev => updateClock(prev, { running: !prev.running }))
+  }
+
+  const setClockRate = (rate: number) => setClock(prev => updateClock(prev, { rate }))
 
-    // Hill equation: EC50 = 0.5 µg/mL, n = 1.5
-    // This naturally produces different (but close) responses for 0.8 vs 1.6 mL
-    // because the Hill curve plateaus near Emax — pharmacologically realistic.
-    // e.g. at highest baselines: 0.8 mL → ~92-95%, 1.6 mL → ~97-99% (near-ceiling, not identical)
-    const EC50 = 0.15
-    const hillCoefficient = 1.5
+  // A further lever and area below the last channel's, recording a control tissue
+  const addRecordingChannel = () => {
+    const added = addChannel(imageData, channels)
+    if (!added) {
+      showToast('No room on the drum for another channel', 'error')
+      return
+    }
+    setImageData(added.layout)
+    setChannels([...channels, added.channel])
+    showToast(`${added.channel.name} added as a control`, 'success')
+  }
 
-    const numerator = Math.pow(concInBath, hillCoefficient)
-    const denominator = Math.pow(EC50, hillCoefficient) + Math.pow(concInBath, hillCoefficient)
-    // Cap at 99.5 so it never exceeds max visually, and never rounds to exactly 100
-    const responsePercent = Math.min(99.5, 100 * (numerator / denominator))
-    return responsePercent
+  // The channel's tissue goes with it, and so does its paper
+  const dropChannel = (channel: RecordingChannel) => {
+    const otherAreas = <T,>(byArea: Record<string, T>) => Object.fromEntries(Object.entries(byArea).filter(([id]) => id !== channel.areaId))
+    setImageData(removeChannel(imageData, channel))
+    setChannels(channels.filter(c => c.id !== channel.id))
+    setTraces(otherAreas)
+    setCanvasWidths(otherAreas)
+    pendingTraceRef.current = otherAreas(pendingTraceRef.current)
+    pendingLabelsRef.current = otherAreas(pendingLabelsRef.current)
+    delete leverRotationsRef.current[channel.id]
   }
 
+  const setChannelRole = (id: string, role: ChannelRole) =>
+    setChannels(channels.map(c => c.id === id ? { ...c, role } : c))
+
   const performWash = useCallback(() => {
     return new Promise<void>((resolve) => {
       const state = useExperimentStore.getState()
-      const { imageData, currentLeverRotation, setCurrentLeverRotation, setImageData, setCanvasData, setExperimentRunning, setFlowStep } = state // Get fresh state
+      const { imageData, channels, setExperimentRunning, setFlowStep, setBathConcentration, selectedAgonist, preparationId, seed, mountedAt, bathConcentration, contactTime, stockStorage, stockPreparedAt, tissues, setTissues, setObservations } = state // Get fresh state
 
       if (!imageData.baseImage || imageData.subImages.length === 0) {
         showToast('Please load experiment data first!', 'error')
         resolve()
         return
       }
-      const leverImage = imageData.subImages.find(img => img.id === 'sub-1770900057664-0')
-      if (!leverImage || leverImage.centerX === undefined || leverImage.centerY === undefined) {
-        showToast('Lever image not properly configured!', 'error')
-        resolve()
-        return
-      }
-      if (leverImage.penTipOffsetX === undefined || leverImage.penTipOffsetY === undefined) {
-        showToast('Pen tip not set on lever image!', 'error')
+      if (channels.length === 0) {
+        showToast('No lever with its pivot and pen tip set over a drawable area!', 'error')
         resolve()
         return
       }
       showToast('Washing organ bath...', 'info')
       setExperimentRunning(true)
-      const startRotation = currentLeverRotation
-      const targetRotation = 0
-      const duration = 1500
-      const startTime = Date.now()
-
-      const penTipLocalX = leverImage.x + leverImage.penTipOffsetX
-      const penTipLocalY = leverImage.y + leverImage.penTipOffsetY
-
-      const startPenTip = rotatePoint(
-        penTipLocalX,
-        penTipLocalY,
-        leverImage.centerX,
-        leverImage.centerY,
-        startRotation
-      )
-      const baselinePenTip = rotatePoint(
-        penTipLocalX,
-        penTipLocalY,
-        leverImage.centerX,
-        leverImage.centerY,
-        0
-      )
-      const animate = () => {
-        const now = Date.now()
-        const elapsed = now - startTime
-        const progress = Math.min(elapsed / duration, 1)
-        const easeProgress = 1 - Math.exp(-5 * progress)
-        const currentRotation = startRotation + (targetRotation - startRotation) * easeProgress
-
-        setCurrentLeverRotation(currentRotation)
-        setImageData(prev => ({
+      // A toxic concentration left in past the contact time goes on injuring
+      // every tissue that was given it
+      const washedAt = clockTime(state.clock)
+      pendingEventRef.current = { kind: 'wash', label: 'W', drumTime: drumSeconds(washedAt), x: {} }
+      const washes = channels.map(channel => {
+        const tissue = channelTissue(tissues, channel.id)
+        const exposed = exposedSinceWash(tissue.exposureHistory)
+        const exposedAt = tissue.exposureHistory.lastExposureAt
+        const leftInInjury = !exposed || exposedAt === null ? 0 : toxicInjury(
+          bathConcentration * stockPotency(selectedAgonist, stockStorage, stockPreparedAt, exposedAt),
+          findAgonistProfile(selectedAgonist, preparationId).ec50,
+          simulatedMinutes(exposedAt, washedAt) - contactTime / 60
+        )
+        return { channel, tissue, exposed, leftInInjury, damageAfterWash: recoverOnWash(addInjury(tissue.tissueDamage, leftInInjury)) }
+      })
+      // Each lever returns to its tissue's resting tone, which drifts over the
+      // session and stays raised by any irreversible contracture. The muscle
+      // relaxes with the drug's own kinetics while the drum keeps turning.
+      const relaxations = washes.map(({ channel, damageAfterWash }) => {
+        const kinetics = effectiveKinetics(selectedAgonist, channelSnapshot(state, channel).selectedAnticholinesterase, preparationId)
+        return {
+          id: channel.id,
+          start: leverRotationsRef.current[channel.id] ?? 0,
+          target: -((baselineDrift(channelSeed(seed, channels, channel.id), mountedAt, washedAt) + contractureTone(damageAfterWash)) / 100) * MAX_ROTATION_ANGLE,
+          kinetics,
+          seconds: relaxationDuration(kinetics),
+        }
+      })
+      const duration = Math.max(...relaxations.map(r => r.seconds)) * SIMULATION_MS_PER_SECOND
+
+      startAction(time => {
+        const elapsedSeconds = drumSeconds(time - washedAt)
+        relaxations.forEach(r => {
+          const relaxed = elapsedSeconds >= r.seconds ? 1 : relaxationProgress(elapsedSeconds, r.kinetics)
+          leverRotationsRef.current[r.id] = r.start + (r.target - r.start) * relaxed
+        })
+        if (time - washedAt < duration) return false
+
+        // Keep the pen samples of this cycle
+        commitTrace()
+
+        setExperimentRunning(false)
+        setBathConcentration(0)
+        setTissues(prev => ({
           ...prev,
-          subImages: prev.subImages.map(img =>
-            img.id === leverImage.id ? { ...img, rotation: currentRotation } : img
-          )
+          ...Object.fromEntries(washes.map(w => [w.channel.id, {
+            ...w.tissue,
+            exposureHistory: w.exposed ? { ...w.tissue.exposureHistory, lastWashAt: time } : w.tissue.exposureHistory,
+            tissueDamage: w.damageAfterWash,
+          }]))
         }))
-
-        if (progress >= 1) {
-          imageData.drawableAreas?.forEach(area => {
-            if (
-              startPenTip.x >= area.x &&
-              startPenTip.x <= area.x + area.width &&
-              startPenTip.y >= area.y &&
-              startPenTip.y <= area.y + area.height
-            ) {
-              // Use last known pen position if available to ensure continuity
-              const lastPos = lastPenPositionRef.current[area.id]
-
-              const currentScroll = drawableAreaRefs.current[area.id]?.scrollLeft / scale || 0
-
-              const startCanvasX = lastPos ? lastPos.x : (startPenTip.x - area.x) + currentScroll
-              const startCanvasY = lastPos ? lastPos.y : (startPenTip.y - area.y)
-
-              // Perfect Vertical Line: End X must be exactly Start X
-              const endCanvasX = startCanvasX
-              const endCanvasY = baselinePenTip.y - area.y
-
-              const ctx = contextRefs.current[area.id]
-              if (ctx) {
-                ctx.strokeStyle = '#ffffff'
-                ctx.lineWidth = 2
-                ctx.beginPath()
-                ctx.moveTo(startCanvasX, startCanvasY)
-                ctx.lineTo(endCanvasX, endCanvasY)
-                ctx.stroke()
-
-                // Update last pen position to the end of wash line
-                lastPenPositionRef.current[area.id] = { x: endCanvasX, y: endCanvasY }
-              }
-            }
-          })
-
-          // Save canvas data on wash completion
-          const canvasUpdates: Record<string, string> = {}
-          imageData.drawableAreas?.forEach(area => {
-            const canvas = canvasRefs.current[area.id]
-            if (canvas) {
-              canvasUpdates[area.id] = canvas.toDataURL()
-            }
-          })
-          setCanvasData(prev => ({ ...prev, ...canvasUpdates }))
-
-          setExperimentRunning(false)
-          setFlowStep('BASELINE') // Ready for next cycle (Baseline)
-
-          const area = imageData.drawableAreas?.[0]
-          if (area && drawableAreaRefs.current[area.id]) {
-            const currentScroll = drawableAreaRefs.current[area.id].scrollLeft / scale
-            const newScroll = currentScroll + 15
-            const canvas = canvasRefs.current[area.id]
-            const visibleWidth = area.width
-            const maxScrollLeft = (canvas?.width || Math.max(area.scrollWidth * 5, 8000)) - visibleWidth
-            const clampedScroll = Math.max(0, Math.min(newScroll, maxScrollLeft))
-            drawableAreaRefs.current[area.id].scrollLeft = clampedScroll * scale
-            setCurrentGraphX(clampedScroll)
-          }
-          showToast('Wash completed', 'success')
-          resolve()
+        // The injury is noted on the last dose each injured tissue was given
+        const injured = washes.filter(w => w.leftInInjury > 0)
+        if (injured.length > 0) {
+          const channelOf = (o: ObservationRecord) => o.channelId ?? channels[0].id
+          setObservations(prev => prev.map((o, i) => {
+            const wash = injured.find(w => w.channel.id === channelOf(o))
+            if (!wash || prev.slice(i + 1).some(later => channelOf(later) === wash.channel.id)) return o
+            return { ...o, toxicity: [...(o.toxicity ?? []), { kind: 'left-in-bath', injury: wash.leftInInjury }] }
+          }))
+        }
+        setFlowStep('BASELINE') // Ready for next cycle (Baseline)
+
+        // Which tissue, once there is more than one
+        const on = (affected: typeof washes) => channels.length > 1 ? ` on ${affected.map(w => w.channel.name).join(', ')}` : ''
+        const ruined = washes.filter(w => tissueResponsiveness(w.damageAfterWash) < USABLE_RESPONSIVENESS)
+        if (ruined.length > 0) {
+          showToast(`The tissue${on(ruined)} is damaged beyond recovery; mount a fresh preparation`, 'error')
+        } else if (injured.length > 0) {
+          showToast(`Wash completed, but the overdose left in the bath has injured the tissue${on(injured)}`, 'error')
         } else {
-          animationFrameRef.current = requestAnimationFrame(animate)
+          showToast('Wash completed', 'success')
         }
-      }
-      animationFrameRef.current = requestAnimationFrame(animate)
+        resolve()
+        return true
+      })
     })
-  }, [imageData, currentLeverRotation, scale, rotatePoint, setCurrentLeverRotation, setImageData, setExperimentRunning, setCurrentGraphX, setCanvasData, setFlowStep])
+  }, [startAction, commitTrace])
 
-  const expandCanvasIfNeeded = useCallback((areaId: string, requiredWidth: number) => {
-    const canvas = canvasRefs.current[areaId]
-    const ctx = contextRefs.current[areaId]
-    if (canvas && ctx && requiredWidth > canvas.width - 200) {
-      const currentImageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
-      const newWidth = canvas.width * 2
-      canvas.width = newWidth
-      ctx.putImageData(currentImageData, 0, 0)
-
-      // Update store with new width so it persists
-      setCanvasWidths(prev => ({ ...prev, [areaId]: newWidth }))
-
-      const area = imageData.drawableAreas.find(a => a.id === areaId)
-      if (area) {
-        ctx.fillStyle = area.color
-        //ctx.strokeStyle = '#e0e0e0'
-        ctx.lineWidth = 1
-        for (let x = 0; x < newWidth; x += 50) {
-          ctx.beginPath()
-          ctx.moveTo(x, 0)
-          ctx.lineTo(x, canvas.height)
-          ctx.stroke()
-        }
-      }
-    }
-  }, [imageData, setCanvasWidths])
-
-  const performInjection = useCallback((overrideConcentration?: number) => {
+  const performInjection = useCallback((overrideConcentration?: number, overrideBaseline?: number, assayDose?: AssayDoseLabel) => {
     return new Promise<void>((resolve) => {
       const state = useExperimentStore.getState()
-      const { imageData, currentLeverRotation, selectedBaseline, selectedConcentration, setCurrentLeverRotation, setImageData, setCanvasData, setExperimentRunning, setObservations, setFlowStep, maxResponse, isAutoSample: freshIsAutoSample } = state // Get fresh state
+      const { imageData, channels, selectedBaseline, selectedConcentration, setExperimentRunning, setObservations, setFlowStep, magnification, isAutoSample: freshIsAutoSample, selectedAgonist, selectedAntagonist, antagonistConcentration, protocol, bathConcentration, setBathConcentration, tissues, setTissues, seed, variability, observations: currentObservations, contactTime, selectedAnticholinesterase, selectedSecondAgonist, combinationRatio, interactionModel, preparationId, stockPreparedAt, stockStorage, bathConditions, hypoxicMinutes, unaeratedSince, mountedAt, concentrationUnit: unit } = state // Get fresh state
 
       const concentrationToUse = overrideConcentration ?? selectedConcentration
+      const baselineToUse = overrideBaseline ?? selectedBaseline
 
       if (!imageData.baseImage || imageData.subImages.length === 0) {
         showToast('Please load experiment data first!', 'error')
         resolve()
         return
       }
-      const leverImage = imageData.subImages.find(img => img.id === 'sub-1770900057664-0')
-      if (!leverImage || leverImage.centerX === undefined || leverImage.centerY === undefined) {
-        showToast('Lever image not properly configured!', 'error')
+      if (channels.length === 0) {
+        showToast('No lever with its pivot and pen tip set over a drawable area!', 'error')
         resolve()
         return
       }
-      if (leverImage.penTipOffsetX === undefined || leverImage.penTipOffsetY === undefined) {
-        showToast('Pen tip not set on lever image!', 'error')
+      if (state.recordingMode === 'isometric' && !state.calibration) {
+        showToast('Calibrate the transducer before dosing', 'error')
         resolve()
         return
       }
-      showToast(`Injecting ${concentrationToUse} µg/mL ACh on ${selectedBaseline} µg/mL baseline...`, 'info')
+      const agonist = findAgonist(selectedAgonist)
+      const antagonist = findAntagonist(selectedAntagonist)
+      const anticholinesterase = findAnticholinesterase(selectedAnticholinesterase)
+      const secondAgonist = preparationAgonists(preparationId).find(a => a.id === selectedSecondAgonist && a.id !== agonist.id)
+      showToast(freshIsAutoSample ? `Injecting ${concentrationToUse} mL of the unknown sample...` : `Injecting ${concentrationToUse} mL of ${formatConcentration(baselineToUse, unit, agonist.molecularWeight, 2)} ${unit} ${agonist.shortName}${secondAgonist ? ` + ${secondAgonist.shortName} ×${combinationRatio}` : ''}${antagonist ? ` (${antagonist.name} ${antagonistConcentration} µM in bath)` : ''}${anticholinesterase ? ` after ${anticholinesterase.name}` : ''}...`, 'info')
       setExperimentRunning(true)
-      const responsePercent = calculateResponse(selectedBaseline, concentrationToUse)
-      const targetRotation = -(responsePercent / 100) * MAX_ROTATION_ANGLE
-
-      const startRotation = currentLeverRotation
-      const duration = 3000
-      const startTime = Date.now()
-      // Initialize areaLastPos from the persistent ref to ensure continuity
-      const areaLastPos: Record<string, { x: number; y: number }> = { ...lastPenPositionRef.current }
-      const startScrollPositions: Record<string, number> = {}
-      const scrollDistance = 150
-      const textDrawn: Record<string, boolean> = {}
-
-      const animate = () => {
-        const now = Date.now()
-        const elapsed = now - startTime
-        const progress = Math.min(elapsed / duration, 1)
-        const easeProgress = 1 / (1 + Math.exp(-8 * (progress - 0.5)))
-        const currentRotation = startRotation + (targetRotation - startRotation) * easeProgress
-
-        setCurrentLeverRotation(currentRotation)
-        setImageData(prev => ({
-          ...prev,
-          subImages: prev.subImages.map(img =>
-            img.id === leverImage.id ? { ...img, rotation: currentRotation } : img
-          )
-        }))
+      const injectedAt = clockTime(state.clock)
+      // Formula: Dose = Stock (baseline) * Volume (concentration)
+      // Bath Conc = Dose / Bath Volume
+      // In the cumulative protocol the dose adds to what is already in the bath
+      const quantity = baselineToUse * concentrationToUse
+      pendingEventRef.current = {
+        kind: freshIsAutoSample ? 'sample' : 'dose',
+        label: assayDose
+          ? `${assayDose} ${concentrationToUse} mL`
+          : freshIsAutoSample ? `U ${concentrationToUse} mL` : `${agonist.shortName} ${Number(quantity.toPrecision(3))} µg / ${concentrationToUse} mL`,
+        drumTime: drumSeconds(injectedAt),
+        x: {}
+      }
+      const concInBath = (protocol === 'cumulative' ? bathConcentration : 0) + quantity / findPreparation(preparationId).bathVolume
+      // Tachyphylaxis: responses shrink if the tissue has not recovered since earlier doses.
+      // Topping up a cumulative series is part of the same exposure.
+      const isNewExposure = protocol === 'single' || bathConcentration === 0
+      // Stocks lose potency over the session; the record still shows the nominal dose
+      const potency = stockPotency(agonist.id, stockStorage, stockPreparedAt, injectedAt)
+      // Far above the effective range the muscle goes into contracture whatever
+      // the receptors do, and is injured for the whole contact time
+      const agonistEc50 = findAgonistProfile(agonist.id, preparationId).ec50
+      const overdose = isToxic(concInBath * potency, agonistEc50)
+      const contractureInjury = overdose ? toxicInjury(concInBath * potency, agonistEc50, contactTime / 60) : 0
+      // The unknown sample and the assay doses are given to the first
+      // channel's tissue only. Every tissue draws its own variability and
+      // carries its own history; a control responds to the agonist alone.
+      const dosed = freshIsAutoSample || assayDose ? channels.slice(0, 1) : channels
+      const responses = dosed.map(channel => {
+        const tissue = channelTissue(tissues, channel.id)
+        const treated = channelSnapshot(state, channel)
+        const channelAntagonist = findAntagonist(treated.selectedAntagonist)
+        const channelAnticholinesterase = findAnticholinesterase(treated.selectedAnticholinesterase)
+        const channelSecondAgonist = preparationAgonists(preparationId).find(a => a.id === treated.selectedSecondAgonist && a.id !== agonist.id)
+        const secondPotency = channelSecondAgonist ? stockPotency(channelSecondAgonist.id, stockStorage, stockPreparedAt, injectedAt) : 1
+        const receptorResponse = calculateResponse(concInBath * potency, {
+          preparationId,
+          agonistId: agonist.id,
+          antagonistId: channelAntagonist?.id,
+          antagonistConcentration: channelAntagonist ? antagonistConcentration : 0,
+          anticholinesteraseId: channelAnticholinesterase?.id,
+          secondAgonistId: channelSecondAgonist?.id,
+          combinationRatio: (combinationRatio * secondPotency) / potency,
+          interaction: interactionModel,
+          sensitivity: calculateSensitivity(tissue.exposureHistory, injectedAt) * fatigueFactor(tissue.contractionCount) * tissueResponsiveness(tissue.tissueDamage),
+          tissue: drawTissueProfile(channelSeed(seed, channels, channel.id), variability),
+          noise: responseNoise(channelSeed(seed, channels, channel.id), currentObservations.length, variability),
+          bath: bathEffect(bathConditions, findPreparation(preparationId), elapsedHypoxicMinutes(hypoxicMinutes, unaeratedSince, injectedAt))
+        })
+        const responsePercent = overdose ? RESPONSE_CEILING : receptorResponse
+        // Latency, rise and plateau for the contact time; a short contact time
+        // washes the drug out before the response has fully developed
+        const kinetics = effectiveKinetics(agonist.id, channelAnticholinesterase?.id, preparationId)
+        return {
+          channel,
+          tissue,
+          antagonist: channelAntagonist,
+          anticholinesterase: channelAnticholinesterase,
+          secondAgonist: channelSecondAgonist,
+          start: leverRotationsRef.current[channel.id] ?? 0,
+          target: -(Math.min(RESPONSE_CEILING, baselineDrift(channelSeed(seed, channels, channel.id), mountedAt, injectedAt) + contractureTone(tissue.tissueDamage) + responsePercent) / 100) * MAX_ROTATION_ANGLE,
+          kinetics,
+        }
+      })
+      // The physiograph is read off the first channel only
+      const recorded = state.recordingMode === 'isometric' ? responses.slice(0, 1) : responses
+      pendingEventRef.current.sNos = recorded.map((_, i) => currentObservations.length + 1 + i)
+
+      const duration = contactTime * SIMULATION_MS_PER_SECOND
+      // The response written beside the trace is the pen's rise on the drum
+      // from where the lever stood before the dose, calibrated off the lever;
+      // a rise that runs off the paper is written as at least its edge
+      pendingLabelsRef.current = Object.fromEntries(responses.flatMap(r => {
+        const lever = imageData.subImages.find(img => img.id === r.channel.leverId)
+        const area = imageData.drawableAreas.find(a => a.id === r.channel.areaId)
+        if (!lever || !isLever(lever) || !area) return []
+        const peak = r.start + (r.target - r.start) * contractionProgress(contactTime, r.kinetics)
+        const rise = penRise(lever, area, leverCalibration(lever, magnification), r.start, peak)
+        return [[area.id, `${rise.clipped ? '≥ ' : ''}${rise.mm.toFixed(1)} mm`]]
+      }))
+
+      startAction(time => {
+        const elapsedSeconds = drumSeconds(Math.min(time - injectedAt, duration))
+        responses.forEach(r => {
+          leverRotationsRef.current[r.channel.id] = r.start + (r.target - r.start) * contractionProgress(elapsedSeconds, r.kinetics)
+        })
+        if (time - injectedAt < duration) return false
 
-        const penTipLocalX = leverImage.x + leverImage.penTipOffsetX!
-        const penTipLocalY = leverImage.y + leverImage.penTipOffsetY!
-        const rotatedPenTip = rotatePoint(
-          penTipLocalX,
-          penTipLocalY,
-          leverImage.centerX!,
-          leverImage.centerY!,
-          currentRotation
-        )
+        // Store the trace BEFORE changing state that might trigger re-renders
+        commitTrace()
 
-        imageData.drawableAreas?.forEach(area => {
-          const isInArea = rotatedPenTip.x >= area.x &&
-            rotatedPenTip.x <= area.x + area.width &&
-            rotatedPenTip.y >= area.y &&
-            rotatedPenTip.y <= area.y + area.height
-
-          if (isInArea) {
-            if (startScrollPositions[area.id] === undefined && drawableAreaRefs.current[area.id]) {
-              startScrollPositions[area.id] = drawableAreaRefs.current[area.id].scrollLeft / scale
-            }
-            const canvas = canvasRefs.current[area.id]
-            const startScroll = startScrollPositions[area.id] || 0
-            const currentScrollOffset = startScroll + (scrollDistance * progress)
-
-            if (autoScroll && drawableAreaRefs.current[area.id]) {
-              const visibleWidth = area.width
-              const maxScrollLeft = (canvas?.width || Math.max(area.scrollWidth * 5, 8000)) - visibleWidth
-              // Update currentGraphX state less frequently if possible, but here we drive animation
-              const clampedScroll = Math.max(0, Math.min(currentScrollOffset, maxScrollLeft))
-              drawableAreaRefs.current[area.id].scrollLeft = clampedScroll * scale
-            }
-
-            const penTipRelativeX = rotatedPenTip.x - area.x
-            expandCanvasIfNeeded(area.id, penTipRelativeX + currentScrollOffset + 300)
-
-            const canvasX = (rotatedPenTip.x - area.x) + currentScrollOffset
-            const canvasY = rotatedPenTip.y - area.y
-
-            if (!textDrawn[area.id]) {
-              const ctx = contextRefs.current[area.id]
-              if (ctx) {
-                ctx.font = '12px sans-serif'
-                ctx.fillStyle = '#ffffff'
-                ctx.textAlign = 'center'
-                ctx.fillText(`${((responsePercent / 100) * maxResponse).toFixed(1)} mm`, canvasX + 25, canvasY + 25)
-              }
-              textDrawn[area.id] = true
-            }
-
-            if (!areaLastPos[area.id]) {
-              areaLastPos[area.id] = { x: canvasX, y: canvasY }
-            }
-
-            const lastPos = areaLastPos[area.id]
-            if (lastPos) {
-              const ctx = contextRefs.current[area.id]
-              if (ctx) {
-                ctx.strokeStyle = '#ffffff'
-                ctx.lineWidth = 2
-                ctx.lineCap = 'round'
-                ctx.lineJoin = 'round'
-                ctx.beginPath()
-                ctx.moveTo(lastPos.x, lastPos.y)
-                ctx.lineTo(canvasX, canvasY)
-                ctx.stroke()
-              }
-            }
-            areaLastPos[area.id] = { x: canvasX, y: canvasY }
-            // Update persistent ref
-            lastPenPositionRef.current[area.id] = { x: canvasX, y: canvasY }
-          }
-        })
-        if (progress < 1) {
-          animationFrameRef.current = requestAnimationFrame(animate)
+        setExperimentRunning(false)
+        setBathConcentration(concInBath)
+        setTissues(prev => ({
+          ...prev,
+          ...Object.fromEntries(responses.map(({ channel, tissue }) => [channel.id, {
+            exposureHistory: isNewExposure
+              ? { recentExposures: effectiveExposures(tissue.exposureHistory, injectedAt) + 1, lastExposureAt: injectedAt, lastWashAt: tissue.exposureHistory.lastWashAt }
+              : tissue.exposureHistory,
+            contractionCount: tissue.contractionCount + (isNewExposure ? 1 : 0),
+            tissueDamage: overdose ? addInjury(tissue.tissueDamage, contractureInjury) : tissue.tissueDamage,
+          }]))
+        }))
+        // Cumulative protocol: the next dose goes straight in without a wash
+        setFlowStep(protocol === 'cumulative' ? 'INJECTION' : 'WASH')
+
+        const isSample = freshIsAutoSample
+
+        // Sample responses are measured off the trace like any other dose
+        setObservations(prev => [...prev, ...recorded.map((r, i): ObservationRecord => ({
+          sNo: prev.length + 1 + i,
+          concentration: baselineToUse,
+          amountAdded: concentrationToUse,
+          concInBath,
+          response: '',
+          percentResponse: '',
+          isSample,
+          assayNumber: isSample || assayDose ? useExperimentStore.getState().assayCount : undefined,
+          assayDose,
+          agonistId: agonist.id,
+          antagonistId: r.antagonist?.id ?? null,
+          antagonistConcentration: r.antagonist ? antagonistConcentration : 0,
+          anticholinesteraseId: r.anticholinesterase?.id ?? null,
+          secondAgonistId: r.secondAgonist?.id ?? null,
+          combinationRatio: r.secondAgonist ? combinationRatio : 0,
+          interaction: r.secondAgonist ? interactionModel : undefined,
+          toxicity: overdose ? [{ kind: 'contracture', injury: contractureInjury }] : undefined,
+          channelId: r.channel.id
+        }))])
+        if (overdose) {
+          showToast('Contracture! The dose is far above the effective range and has injured the tissue', 'error')
         } else {
-          // Save canvas data BEFORE changing state that might trigger re-renders
-          const canvasUpdates: Record<string, string> = {}
-          imageData.drawableAreas?.forEach(area => {
-            const canvas = canvasRefs.current[area.id]
-            if (canvas) {
-              canvasUpdates[area.id] = canvas.toDataURL()
-            }
-          })
-          setCanvasData(prev => ({ ...prev, ...canvasUpdates }))
-
-          setExperimentRunning(false)
-          setFlowStep('WASH') // Ready for Wash
-
-          const area = imageData.drawableAreas?.[0]
-          if (area && drawableAreaRefs.current[area.id]) {
-            const finalScrollPos = drawableAreaRefs.current[area.id].scrollLeft / scale || 0
-            setCurrentGraphX(finalScrollPos + 20)
-          }
-
-          const quantity = selectedBaseline * concentrationToUse
-          const concInBath = quantity / ORGAN_BATH_VOLUME
-          const respValue = (responsePercent / 100) * maxResponse
-          const isSample = freshIsAutoSample
-
-          setObservations(prev => [...prev, {
-            sNo: prev.length + 1,
-            concentration: selectedBaseline,
-            amountAdded: concentrationToUse,
-            concInBath,
-            response: isSample ? respValue.toFixed(2) : '',
-            percentResponse: isSample ? responsePercent.toFixed(2) : '',
-            isSample
-          }])
           showToast('Injection completed!', 'success')
-          resolve()
         }
-      }
-      animationFrameRef.current = requestAnimationFrame(animate)
+        resolve()
+        return true
+      })
     })
-  }, [imageData, currentLeverRotation, selectedBaseline, selectedConcentration, autoScroll, scale, rotatePoint, expandCanvasIfNeeded, setCurrentLeverRotation, setImageData, setExperimentRunning, setObservations, setCurrentGraphX, setCanvasData, setFlowStep])
+  }, [startAction, commitTrace])
 
   const performBaseline = useCallback(() => {
     return new Promise<void>((resolve) => {
       const state = useExperimentStore.getState()
-      const { imageData, setCurrentLeverRotation, setCanvasData, setExperimentRunning, setFlowStep } = state // Get fresh state
+      const { imageData, channels, setExperimentRunning, setFlowStep, seed, mountedAt, tissues } = state // Get fresh state
 
       if (!imageData.baseImage || imageData.subImages.length === 0) {
         resolve()
         return
       }
-      const leverImage = imageData.subImages.find(img => img.id === 'sub-1770900057664-0')
-      if (!leverImage) {
+      if (channels.length === 0) {
         resolve()
         return
       }
@@ -588,114 +863,161 @@ export default function Exp1Page() {
       showToast('Recording baseline...', 'info')
       setExperimentRunning(true)
 
-      // Ensure lever is at 0
-      setCurrentLeverRotation(0)
-
-      const duration = 1000
-      const startTime = Date.now()
-      const areaLastPos: Record<string, { x: number; y: number }> = { ...lastPenPositionRef.current }
-      const startScrollPositions: Record<string, number> = {}
-      const scrollDistance = 30 // Shorter scroll for baseline
-
-      const animate = () => {
-        const now = Date.now()
-        const elapsed = now - startTime
-        const progress = Math.min(elapsed / duration, 1)
-
-        // Only scroll, no rotation change
-        imageData.drawableAreas?.forEach(area => {
-          if (startScrollPositions[area.id] === undefined && drawableAreaRefs.current[area.id]) {
-            startScrollPositions[area.id] = drawableAreaRefs.current[area.id].scrollLeft / scale
-          }
-          const canvas = canvasRefs.current[area.id]
-          const startScroll = startScrollPositions[area.id] || 0
-          const currentScrollOffset = startScroll + (scrollDistance * progress)
-
-          if (autoScroll && drawableAreaRefs.current[area.id]) {
-            const visibleWidth = area.width
-            const maxScrollLeft = (canvas?.width || Math.max(area.scrollWidth * 5, 8000)) - visibleWidth
-            const clampedScroll = Math.max(0, Math.min(currentScrollOffset, maxScrollLeft))
-            drawableAreaRefs.current[area.id].scrollLeft = clampedScroll * scale
-            setCurrentGraphX(clampedScroll)
-          }
-
-          // Draw horizontal line
-          const penTipLocalX = leverImage.x + (leverImage.penTipOffsetX || 0)
-          const penTipLocalY = leverImage.y + (leverImage.penTipOffsetY || 0)
-          // No rotation, angle 0
-          const penTip = rotatePoint(penTipLocalX, penTipLocalY, leverImage.centerX || 0, leverImage.centerY || 0, 0)
-
-          const penTipRelativeX = penTip.x - area.x
-          expandCanvasIfNeeded(area.id, penTipRelativeX + currentScrollOffset + 300)
-
-          const canvasX = (penTip.x - area.x) + currentScrollOffset
-          const canvasY = penTip.y - area.y
-
-          if (!areaLastPos[area.id]) {
-            areaLastPos[area.id] = { x: canvasX, y: canvasY }
-          }
+      // Each lever at its tissue's resting tone, wherever it has drifted to
+      const startTime = clockTime(state.clock)
+      leverRotationsRef.current = Object.fromEntries(channels.map(channel =>
+        [channel.id, -((baselineDrift(channelSeed(seed, channels, channel.id), mountedAt, startTime) + contractureTone(channelTissue(tissues, channel.id).tissueDamage)) / 100) * MAX_ROTATION_ANGLE]
+      ))
+
+      // A quiescent tissue gives a short flat line; a rhythmic one is recorded
+      // for two full cycles of its spontaneous activity
+      const baselineSeconds = hasRhythm(state.rhythm) ? Math.max(10, 120 / state.rhythm.frequency) : 10
+      const duration = baselineSeconds * SIMULATION_MS_PER_SECOND
+
+      // The tonic position holds while the drum turns and the rhythm rides on it
+      startAction(time => {
+        if (time - startTime < duration) return false
+        commitTrace()
+        setExperimentRunning(false)
+        setFlowStep('INJECTION')
+        showToast('Baseline recorded', 'success')
+        resolve()
+        return true
+      })
+    })
+  }, [startAction, commitTrace])
+
+  // The unknown is assigned by the instructor, or drawn by the app on first use
+  const ensureUnknownSample = useCallback((): UnknownSample => {
+    const { unknownSample, assayCount, seed, preparationId } = useExperimentStore.getState()
+    if (unknownSample && unknownSample.estimate === null) return unknownSample
+    const sample: UnknownSample = {
+      concentration: drawUnknownConcentration(seed, assayCount, findPreparation(preparationId).unknownRange),
+      assignedBy: 'app',
+      estimate: null
+    }
+    setUnknownSample(sample)
+    setAssayCount(assayCount + 1)
+    setAssayEstimateInput('')
+    return sample
+  }, [setUnknownSample, setAssayCount])
+
+  // Hang a known weight on the transducer; the step it gives sets the gain
+  const performCalibration = useCallback(() => {
+    return new Promise<void>((resolve) => {
+      const state = useExperimentStore.getState()
+      const { setExperimentRunning, setCalibration, seed } = state // Get fresh state
 
-          const lastPos = areaLastPos[area.id]
-          if (lastPos) {
-            const ctx = contextRefs.current[area.id]
-            if (ctx) {
-              ctx.strokeStyle = '#ffffff'
-              ctx.lineWidth = 2
-              ctx.lineCap = 'round'
-              ctx.lineJoin = 'round'
-              ctx.beginPath()
-              ctx.moveTo(lastPos.x, lastPos.y)
-              ctx.lineTo(canvasX, canvasY)
-              ctx.stroke()
-            }
-          }
-          areaLastPos[area.id] = { x: canvasX, y: canvasY }
-          lastPenPositionRef.current[area.id] = { x: canvasX, y: canvasY }
-        })
+      showToast(`Hanging ${calibrationWeight} g on the transducer...`, 'info')
+      setExperimentRunning(true)
+      const step = calibrationWeight * transducerSensitivity(seed)
+      const totalSeconds = CALIBRATION_HOLD + 2
+      const startTime = clockTime(state.clock)
+
+      startAction(time => {
+        const elapsedSeconds = drumSeconds(time - startTime)
+        const loaded = elapsedSeconds >= 1 && elapsedSeconds < 1 + CALIBRATION_HOLD
+        calibrationLoadRef.current = loaded ? step : 0
+        if (elapsedSeconds < totalSeconds) return false
+        setCalibration({ weight: calibrationWeight, signal: step })
+        setExperimentRunning(false)
+        showToast(`Transducer calibrated: ${calibrationWeight} g = ${step.toFixed(1)} mV`, 'success')
+        resolve()
+        return true
+      })
+    })
+  }, [calibrationWeight, startAction])
 
-        if (progress < 1) {
-          animationFrameRef.current = requestAnimationFrame(animate)
-        } else {
-          const canvasUpdates: Record<string, string> = {}
-          imageData.drawableAreas?.forEach(area => {
-            const canvas = canvasRefs.current[area.id]
-            if (canvas) canvasUpdates[area.id] = canvas.toDataURL()
-          })
-          setCanvasData(prev => ({ ...prev, ...canvasUpdates }))
-          setExperimentRunning(false)
-          setFlowStep('INJECTION')
-          showToast('Baseline recorded', 'success')
-          resolve()
-        }
-      }
-      animationFrameRef.current = requestAnimationFrame(animate)
+  // A pause between the steps of a sequence, in simulated seconds on the clock;
+  // the controls stay locked until the sequence is through
+  const waitOnClock = useCallback((seconds: number) => {
+    return new Promise<void>((resolve) => {
+      const state = useExperimentStore.getState()
+      const startTime = clockTime(state.clock)
+      state.setExperimentRunning(true)
+      startAction(time => {
+        if (time - startTime < seconds * SIMULATION_MS_PER_SECOND) return false
+        state.setExperimentRunning(false)
+        resolve()
+        return true
+      })
     })
-  }, [imageData, autoScroll, scale, rotatePoint, expandCanvasIfNeeded, setExperimentRunning, setCurrentGraphX, setCanvasData, setFlowStep, setCurrentLeverRotation])
+  }, [startAction])
 
   const performSample = useCallback(async () => {
     if (experimentRunning) return
-    setIsAutoSample(true)
 
-    // Pick a random concentration
-    const randomIdx = Math.floor(Math.random() * availableConcentrations.length)
-    const randomConc = availableConcentrations[randomIdx]
-    setSelectedConcentration(randomConc) // Update UI only? No, performInjection reads override.
+    const sample = ensureUnknownSample()
+    const { selectedConcentration } = useExperimentStore.getState()
+    setIsAutoSample(true)
 
     // Sequence: Baseline -> Wait -> Inject -> Wait -> Wash
     await performBaseline()
 
     // Small delay
-    await new Promise(r => setTimeout(r, 800))
+    await waitOnClock(8)
 
-    await performInjection(randomConc) // Pass correct value
+    await performInjection(selectedConcentration, sample.concentration)
 
     // Delay before wash
-    await new Promise(r => setTimeout(r, 1500))
+    await waitOnClock(15)
+
+    await performWash()
+
+    setIsAutoSample(false)
+  }, [experimentRunning, ensureUnknownSample, performBaseline, performInjection, performWash, waitOnClock, setIsAutoSample])
+
+  // Next dose of a 3-point / 4-point assay, in Latin-square order
+  const performAssayDose = useCallback(async () => {
+    if (experimentRunning) return
+    const { assayDesign, assayVolumes, selectedBaseline } = useExperimentStore.getState()
+    if (!assayDesign) return
+
+    const sample = ensureUnknownSample()
+    const { assayCount, seed, observations } = useExperimentStore.getState()
+    const doses = ASSAY_DOSES[assayDesign]
+    const sequence = latinSquare(doses.length, seed, assayCount).flat()
+    const given = observations.filter(o => o.assayNumber === assayCount && o.assayDose).length
+    if (given >= sequence.length) {
+      showToast('Assay complete - submit your estimate of the unknown', 'info')
+      return
+    }
+    const dose = doses[sequence[given]]
+    const isTest = dose.startsWith('T')
+    setIsAutoSample(isTest)
 
+    await performBaseline()
+    await waitOnClock(8)
+    await performInjection(assayVolumes[dose], isTest ? sample.concentration : selectedBaseline, dose)
+    await waitOnClock(15)
     await performWash()
 
     setIsAutoSample(false)
-  }, [experimentRunning, availableConcentrations, performBaseline, performInjection, performWash, setIsAutoSample, setSelectedConcentration])
+  }, [experimentRunning, ensureUnknownSample, performBaseline, performInjection, performWash, waitOnClock, setIsAutoSample])
+
+  // Both entries are in the display unit; the unknown is kept in µg/mL
+  const assignInstructorUnknown = () => {
+    const concentration = instructorUnknownInput === '' ? NaN : toMicrogramsPerMl(Number(instructorUnknownInput), concentrationUnit, primaryAgonist.molecularWeight)
+    if (!(concentration > 0)) {
+      showToast('Enter a positive stock concentration for the unknown', 'error')
+      return
+    }
+    setUnknownSample({ concentration, assignedBy: 'instructor', estimate: null })
+    setAssayCount(assayCount + 1)
+    setInstructorUnknownInput('')
+    setAssayEstimateInput('')
+    showToast('Unknown sample assigned', 'success')
+  }
+
+  const submitAssayEstimate = () => {
+    const estimate = assayEstimateInput === '' ? NaN : toMicrogramsPerMl(Number(assayEstimateInput), concentrationUnit, primaryAgonist.molecularWeight)
+    if (!unknownSample || !(estimate > 0)) {
+      showToast('Enter your estimate of the unknown stock concentration', 'error')
+      return
+    }
+    setUnknownSample({ ...unknownSample, estimate })
+    setShowAssayResult(true)
+  }
 
   const updateObservationResponse = (index: number, response: string) => {
     setObservations(prev => {
@@ -716,32 +1038,167 @@ export default function Exp1Page() {
 
   const resetExperiment = () => {
     resetStore() // Resets state in store
+    leverRotationsRef.current = {}
+    pendingLabelsRef.current = {}
+    setLeverAngles({})
     showToast('Experiment reset - ready for new trial', 'info')
   }
 
+  // The Status card follows the first channel's tissue
+  const { exposureHistory, contractionCount, tissueDamage } = channelTissue(tissues, channels[0]?.id)
+  const tissueSensitivity = calculateSensitivity(exposureHistory, now)
+  const currentStockPotency = stockPotency(selectedAgonist, stockStorage, stockPreparedAt, now)
+
+  // Without aeration the oxygen debt keeps growing, so responses fade dose by dose
+  const currentBath = bathEffect(bathConditions, preparation, elapsedHypoxicMinutes(hypoxicMinutes, unaeratedSince, now))
+
+  const updateBathConditions = (changes: Partial<BathConditions>) => {
+    setBathConditions({ ...bathConditions, ...changes })
+    if (changes.aerated === false) showToast('Aeration off: the tissue is becoming hypoxic', 'error')
+  }
+
+  const currentDrift = baselineDrift(seed, mountedAt, now)
+  const currentRhythmAmplitude = rhythm.amplitude * rhythmAmplitudeFactor({
+    preparationId, bathConditions, hypoxicMinutes, unaeratedSince, selectedAntagonist, antagonistConcentration, selectedRhythmModulator, rhythmModulatorConcentration
+  }, now)
+  const currentFatigue = fatigueFactor(contractionCount)
+
+  // The first channel's lever, as the Status card reports it, and the pen's
+  // travel (mm) over the full range of responses
+  const firstLever = imageData.subImages.find(img => img.id === channels[0]?.leverId)
+  const leverScale = firstLever && isLever(firstLever) ? leverCalibration(firstLever, magnification) : null
+  const fullScale = channelFullScale(imageData, channels[0], magnification)
+
+  // Responses are measured in mm off the isotonic lever, in g off the transducer
+  const responseUnit = recordingMode === 'isometric' ? 'g' : 'mm'
+
+  // --- Physiograph: isometric tension against chart time, in mV until calibrated ---
+  const physiographData = {
+    datasets: [
+      {
+        label: calibration ? 'Tension (g)' : 'Transducer output (mV)',
+        data: forceTrace.map(s => ({ x: s.t, y: calibration ? signalToGrams(s.signal, calibration) : s.signal })),
+        showLine: true,
+        tension: 0,
+        borderColor: '#1e293b',
+        backgroundColor: 'transparent',
+        pointRadius: 0,
+        borderWidth: 1.5,
+      },
+    ],
+  }
+
+  // `windowSeconds` follows the pen while recording; omit it for the whole trace
+  const physiographChartOptions = (windowSeconds?: number) => {
+    const lastT = forceTrace.length > 0 ? forceTrace[forceTrace.length - 1].t : 0
+    return {
+      responsive: true,
+      maintainAspectRatio: false,
+      animation: false as const,
+      plugins: { legend: { display: false } },
+      scales: {
+        x: {
+          type: 'linear' as const,
+          min: windowSeconds ? Math.max(0, lastT - windowSeconds) : 0,
+          max: windowSeconds ? Math.max(windowSeconds, lastT) : undefined,
+          grid: { color: '#fecdd3' },
+          title: { display: true, text: 'Time (s)' },
+        },
+        y: {
+          grid: { color: '#fecdd3' },
+          title: { display: true, text: calibration ? 'Tension (g)' : 'Output (mV, uncalibrated)' },
+        },
+      },
+    }
+  }
+
+  // Agonist concentrations are stored in µg/mL; switching the unit only changes the display
+  const unitSelector = (
+    <label className="flex items-center gap-2 text-sm font-medium text-slate-600">
+      Units:
+      <select
+        value={concentrationUnit}
+        onChange={e => setConcentrationUnit(e.target.value as ConcentrationUnit)}
+        className="px-3 py-2 border rounded focus:border-blue-500"
+      >
+        {CONCENTRATION_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+      </select>
+    </label>
+  )
+
+  // The drum stops for the equilibration, so what it has drawn is stored first
+  const handleMountFreshPreparation = () => {
+    if (clock.running) commitTrace()
+    mountFreshPreparation()
+    showToast(`Fresh tissue mounted; ${EQUILIBRATION_MINUTES} min have passed on the lab clock while it equilibrated. Repeat the control doses`, 'success')
+  }
+
+  const handlePrepareFreshStock = () => {
+    prepareFreshStock()
+    showToast('Fresh stock solution prepared', 'success')
+  }
+
+  // Antagonist concentrations offered depend on its affinity on this tissue
+  const antagonistConcentrations = preparation.antagonists.find(p => p.antagonistId === selectedAntagonist)?.concentrations ?? []
+  const selectAntagonist = (antagonistId: string | null) => {
+    setSelectedAntagonist(antagonistId)
+    const concentrations = preparation.antagonists.find(p => p.antagonistId === antagonistId)?.concentrations ?? []
+    if (concentrations.length > 0 && !concentrations.includes(antagonistConcentration)) {
+      setAntagonistConcentration(concentrations[Math.floor(concentrations.length / 2)])
+    }
+  }
+
+  // Sample rows of the current unknown stay hidden until the estimate is submitted
+  const isHiddenSample = (o: ObservationRecord) =>
+    !!o.isSample && o.assayNumber === assayCount && !!unknownSample && unknownSample.estimate === null
+
+  // Each channel is a separate tissue, so the graphs analyse one channel's rows
+  // at a time. The unknown and the assay doses are given to the first only.
+  const analysedChannel = channels.find(c => c.id === analysedChannelId) ?? channels[0]
+  const analysedObservations = channelObservations(observations, channels, analysedChannel?.id)
+  const firstChannelObservations = channelObservations(observations, channels, channels[0]?.id)
+
+  // Bioassay: bracket each response to the current unknown between ACh standards
+  const assayBrackets = bracketUnknown(
+    firstChannelObservations
+      .filter(o => !o.isSample && !o.antagonistId && !o.anticholinesteraseId && !o.secondAgonistId && findAgonist(o.agonistId).id === preparation.primaryAgonistId)
+      .filter(o => o.percentResponse !== '' && !isNaN(Number(o.percentResponse)))
+      .map(o => ({ concInBath: o.concInBath, percentResponse: Number(o.percentResponse) })),
+    firstChannelObservations
+      .filter(o => o.isSample && o.assayNumber === assayCount && o.percentResponse !== '' && !isNaN(Number(o.percentResponse)))
+      .map(o => ({ amountAdded: o.amountAdded, percentResponse: Number(o.percentResponse) })),
+    preparation.bathVolume
+  )
+  const bracketedEstimate = combineEstimates(assayBrackets)
+
+  // Graded-dose assay: Latin-square schedule, responses grouped by dose, potency
+  const assayDoses = assayDesign ? ASSAY_DOSES[assayDesign] : []
+  const assaySquare = assayDesign ? latinSquare(assayDoses.length, seed, assayCount) : []
+  const assayRecords = firstChannelObservations.filter(o => o.assayDose && o.assayNumber === assayCount)
+  const nextAssayDose = assayRecords.length < assayDoses.length ** 2
+    ? assayDoses[assaySquare.flat()[assayRecords.length]]
+    : null
+  const assayInProgress = assayRecords.length > 0 && !!unknownSample && unknownSample.estimate === null
+  const assayStandardStock = assayRecords.find(o => o.assayDose?.startsWith('S'))?.concentration ?? selectedBaseline
+  const assayPotency = parallelLineAssay(
+    assayRecords
+      .filter(o => o.percentResponse !== '' && !isNaN(Number(o.percentResponse)))
+      .map(o => ({ dose: o.assayDose!, volume: o.amountAdded, response: Number(o.percentResponse) })),
+    assayStandardStock
+  )
+
   const allItems = [
     ...imageData.subImages.map(img => ({ ...img, type: 'image' as const })),
     ...(imageData.drawableAreas || []).map(area => ({ ...area, type: 'area' as const }))
   ].sort((a, b) => a.zIndex - b.zIndex)
 
   // Chart data — Exp1: Linear best-fit on CONTROL data only (no sample tests)
-  const sortedObs = [...observations].sort((a, b) => a.concInBath - b.concInBath)
-  const controlObs = sortedObs.filter(o => !o.isSample && Number(o.percentResponse) > 0 && o.concInBath > 0)
-
-  // Linear regression (least-squares)
-  const computeLinearFit = (pts: { x: number; y: number }[]) => {
-    const n = pts.length
-    if (n < 2) return null
-    const meanX = pts.reduce((s, p) => s + p.x, 0) / n
-    const meanY = pts.reduce((s, p) => s + p.y, 0) / n
-    const slope = pts.reduce((s, p) => s + (p.x - meanX) * (p.y - meanY), 0) /
-      pts.reduce((s, p) => s + (p.x - meanX) ** 2, 0)
-    const intercept = meanY - slope * meanX
-    return { slope, intercept }
-  }
+  const sortedObs = [...analysedObservations].sort((a, b) => a.concInBath - b.concInBath)
+  const controlObs = sortedObs.filter(o => !o.isSample && !o.antagonistId && !o.anticholinesteraseId && !o.secondAgonistId && findAgonist(o.agonistId).id === preparation.primaryAgonistId && Number(o.percentResponse) > 0 && o.concInBath > 0)
 
   // --- Graph 1: Dose vs % Response (linear fit on control data) ---
-  const controlPts = controlObs.map(o => ({ x: o.concInBath, y: Number(o.percentResponse) }))
+  // Both graphs are drawn and fitted in the selected display unit
+  const controlPts = controlObs.map(o => ({ x: convertConcentration(o.concInBath, linearUnit(concentrationUnit), primaryAgonist.molecularWeight), y: Number(o.percentResponse) }))
   const linFit = computeLinearFit(controlPts)
   const ctrlMinX = controlPts.length > 0 ? Math.min(...controlPts.map(p => p.x)) : 0
   const ctrlMaxX = controlPts.length > 0 ? Math.max(...controlPts.map(p => p.x)) : 1
@@ -784,14 +1241,14 @@ export default function Exp1Page() {
       legend: { position: 'top' as const },
       title: {
         display: true,
-        text: 'Dose vs. % Response curve of Acetylcholine on Frog Rectus Abdominis Muscle',
+        text: `Dose vs. % Response curve of ${primaryAgonist.name} on ${preparation.name}`,
         font: { size: 16 },
       },
     },
     scales: {
       x: {
         type: 'linear' as const,
-        title: { display: true, text: 'Concentration in Bath (µg/mL)' },
+        title: { display: true, text: linearAxisLabel(concentrationUnit) },
       },
       y: { min: 0, max: 110, title: { display: true, text: '% Response' } },
     },
@@ -800,7 +1257,7 @@ export default function Exp1Page() {
   // --- Graph 2: Log-Dose vs % Response (linear fit on log-transformed control data) ---
   const logControlPts = controlObs
     .filter(o => o.concInBath > 0)
-    .map(o => ({ x: Math.log10(o.concInBath), y: Number(o.percentResponse) }))
+    .map(o => ({ x: logConcentration(o.concInBath, concentrationUnit, primaryAgonist.molecularWeight), y: Number(o.percentResponse) }))
   const logLinFit = computeLinearFit(logControlPts)
   const logMinX = logControlPts.length > 0 ? Math.min(...logControlPts.map(p => p.x)) : -2
   const logMaxX = logControlPts.length > 0 ? Math.max(...logControlPts.map(p => p.x)) : 2
@@ -843,74 +1300,322 @@ export default function Exp1Page() {
       legend: { position: 'top' as const },
       title: {
         display: true,
-        text: 'Log-Dose vs. % Response curve of Acetylcholine on Frog Rectus Abdominis Muscle',
+        text: `Log-Dose vs. % Response curve of ${primaryAgonist.name} on ${preparation.name}`,
         font: { size: 16 },
       },
     },
     scales: {
       x: {
         type: 'linear' as const,
-        title: { display: true, text: 'Log₁₀(Concentration in Bath)' },
+        title: { display: true, text: logAxisLabel(concentrationUnit) },
       },
       y: { min: 0, max: 110, title: { display: true, text: '% Response' } },
     },
   }
 
-  return (
-    <div className="min-h-screen bg-slate-50">
-
-      {/* Continue / Fresh Start Dialog */}
-      {showContinueDialog && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
-          <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full mx-4 border border-slate-200">
-            <div className="flex items-center gap-3 mb-4">
-              <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center">
-                <span className="text-blue-600 text-xl">↩</span>
-              </div>
-              <h2 className="text-xl font-bold text-slate-800">Previous Session Found</h2>
-            </div>
-            <p className="text-slate-600 mb-6">
-              You have an unfinished experiment session. Would you like to continue from where you left off, or start a fresh experiment?
-            </p>
-            <div className="flex gap-3">
-              <button
-                onClick={handleContinue}
-                className="flex-1 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
-              >
-                Continue Session
-              </button>
-              <button
-                onClick={handleFreshStart}
-                className="flex-1 py-3 border border-red-200 text-red-600 rounded-lg font-medium hover:bg-red-50 transition-colors"
-              >
-                Fresh Start
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
-      <div className="max-w-7xl mx-auto px-5 py-8">
-        <div className="flex items-center justify-between mb-10">
-          <div>
-            <h1 className="text-3xl font-bold text-slate-800">Acetylcholine Dose-Response Curve</h1>
-            <p className="text-slate-600">Frog Rectus Abdominis Muscle – Kymograph Simulation</p>
-          </div>
-          <Link href="/" className="flex items-center gap-2 px-5 py-2.5 bg-white rounded-lg shadow-sm border hover:bg-slate-50">
-            <Home size={18} /> Home
-          </Link>
-        </div>
+  // Observations with a usable % response, in the shape the analysis helpers expect
+  const recordedResponses = analysedObservations
+    .filter(o => !o.isSample && o.concInBath > 0 && o.percentResponse !== '' && !isNaN(Number(o.percentResponse)))
+    .map(o => ({ ...o, percentResponse: Number(o.percentResponse) }))
+
+  // --- Control vs antagonist curves: one log-dose curve per treatment ---
+  const treatmentGroups = groupByTreatment(recordedResponses)
+  const treatmentColors = ['#3b82f6', '#8b5cf6', '#f59e0b', '#ef4444', '#0ea5e9', '#10b981', '#ec4899']
+
+  const treatmentData = {
+    datasets: treatmentGroups.map((group, i) => {
+      const color = treatmentColors[i % treatmentColors.length]
+      const mechanism = findAntagonist(group.antagonistId)?.mechanism
+      return {
+        label: `${describeTreatment(group)}${mechanism ? ` (${mechanism})` : ''}`,
+        data: group.records.map(o => ({ x: logConcentration(o.concInBath, concentrationUnit, findAgonist(o.agonistId).molecularWeight), y: o.percentResponse })),
+        showLine: true,
+        tension: 0.3,
+        borderColor: color,
+        backgroundColor: color,
+        borderDash: group.antagonistId ? [6, 4] : [],
+        pointRadius: 5,
+        pointHoverRadius: 7,
+        borderWidth: 2,
+      }
+    }),
+  }
 
-        <div className="flex border-b mb-8">
-          {[
-            { id: 'theory', label: 'Theory', icon: BookOpen },
-            { id: 'setup', label: 'Setup', icon: Settings },
-            { id: 'observation', label: 'Observation', icon: ClipboardList },
-            { id: 'graphs', label: 'Graphs', icon: BarChart3 },
-          ].map(tab => (
-            <button
-              key={tab.id}
-              onClick={() => handleTabChange(tab.id as 'theory' | 'setup' | 'observation' | 'graphs')}
-              className={`flex-1 py-4 px-6 font-medium flex items-center justify-center gap-2 border-b-2 transition-colors ${activeTab === tab.id
+  const treatmentChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { position: 'top' as const },
+      title: {
+        display: true,
+        text: 'Control vs. Antagonist Log-Dose Response Curves',
+        font: { size: 16 },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        title: { display: true, text: logAxisLabel(concentrationUnit) },
+      },
+      y: { min: 0, max: 110, title: { display: true, text: '% Response' } },
+    },
+  }
+
+  // --- Anticholinesterase potentiation: control vs pretreated ACh curves ---
+  const potentiationResults = potentiationAnalysis(recordedResponses)
+  const potentiationGroups = treatmentGroups.filter(g => g.agonistId === DEFAULT_AGONIST_ID && !g.antagonistId && !g.secondAgonistId)
+  const potentiationColors = ['#3b82f6', '#f59e0b', '#ef4444']
+  const potentiationData = {
+    datasets: potentiationGroups.map(group => {
+      const color = potentiationColors[ANTICHOLINESTERASES.findIndex(a => a.id === group.anticholinesteraseId) + 1]
+      return {
+        label: describeTreatment(group),
+        data: group.records.map(o => ({ x: logConcentration(o.concInBath, concentrationUnit, findAgonist(o.agonistId).molecularWeight), y: o.percentResponse })),
+        showLine: true,
+        tension: 0.3,
+        borderColor: color,
+        backgroundColor: color,
+        borderDash: group.anticholinesteraseId ? [6, 4] : [],
+        pointRadius: 5,
+        pointHoverRadius: 7,
+        borderWidth: 2,
+      }
+    }),
+  }
+
+  const potentiationChartOptions = {
+    ...treatmentChartOptions,
+    plugins: {
+      ...treatmentChartOptions.plugins,
+      title: {
+        display: true,
+        text: 'Potentiation of Acetylcholine by Anticholinesterases',
+        font: { size: 16 },
+      },
+    },
+  }
+
+  // --- Isobologram: equi-effective concentrations of combined agonists ---
+  const toLinearUnit = (c: number, agonistId: string) =>
+    convertConcentration(c, linearUnit(concentrationUnit), findAgonist(agonistId).molecularWeight)
+  const isobologramResults = isobologramAnalysis(recordedResponses, isoboleEffect)
+  const interactionColors: Record<InteractionModel, string> = { additive: '#3b82f6', synergistic: '#10b981', antagonistic: '#ef4444' }
+
+  const isobologramData = {
+    datasets: isobologramResults.flatMap(result => [
+      {
+        label: `${findAgonist(result.agonistId).shortName} + ${findAgonist(result.secondAgonistId).shortName} (line of additivity)`,
+        data: [{ x: toLinearUnit(result.firstAlone, result.agonistId), y: 0 }, { x: 0, y: toLinearUnit(result.secondAlone, result.secondAgonistId) }],
+        showLine: true,
+        tension: 0,
+        borderColor: '#94a3b8',
+        backgroundColor: 'transparent',
+        borderDash: [6, 4],
+        pointRadius: 4,
+        borderWidth: 2,
+      },
+      ...INTERACTION_MODELS.filter(m => result.points.some(p => p.interaction === m)).map(model => ({
+        label: `${findAgonist(result.agonistId).shortName} + ${findAgonist(result.secondAgonistId).shortName} (${model})`,
+        data: result.points.filter(p => p.interaction === model).map(p => ({ x: toLinearUnit(p.firstConcentration, result.agonistId), y: toLinearUnit(p.secondConcentration, result.secondAgonistId) })),
+        showLine: false,
+        borderColor: interactionColors[model],
+        backgroundColor: interactionColors[model],
+        pointRadius: 6,
+        pointHoverRadius: 8,
+      })),
+    ]),
+  }
+
+  const isobologramChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { position: 'top' as const },
+      title: {
+        display: true,
+        text: `Isobologram at ${isoboleEffect}% Response`,
+        font: { size: 16 },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        min: 0,
+        title: { display: true, text: linearAxisLabel(concentrationUnit, 'First Agonist in Bath') },
+      },
+      y: {
+        type: 'linear' as const,
+        min: 0,
+        title: { display: true, text: linearAxisLabel(concentrationUnit, 'Second Agonist in Bath') },
+      },
+    },
+  }
+
+  // --- Schild plot: log(DR − 1) vs log[antagonist] from the recorded observations ---
+  const schildResults = preparationAgonists(preparationId).flatMap(agonist => schildAnalysis(recordedResponses, agonist.id))
+  const schildColors = ['#8b5cf6', '#0ea5e9']
+
+  const schildData = {
+    datasets: schildResults.flatMap((result, i) => {
+      const color = schildColors[i % schildColors.length]
+      const name = findAntagonist(result.antagonistId)?.name ?? result.antagonistId
+      const xs = result.points.map(p => p.logAntagonistMolar)
+      const slope = result.slope ?? 1
+      const pA2 = result.pA2 ?? 0
+      const minX = Math.min(...xs, -pA2) - 0.25
+      const maxX = Math.max(...xs) + 0.25
+      return [
+        {
+          label: `${name} (observed)`,
+          data: result.points.map(p => ({ x: p.logAntagonistMolar, y: p.logDoseRatioMinusOne })),
+          showLine: false,
+          borderColor: color,
+          backgroundColor: color,
+          pointRadius: 6,
+          pointHoverRadius: 8,
+        },
+        {
+          label: `${name} (Schild regression)`,
+          data: [minX, maxX].map(x => ({ x, y: slope * (x + pA2) })),
+          showLine: true,
+          tension: 0,
+          borderColor: color,
+          backgroundColor: 'transparent',
+          borderDash: [6, 4],
+          pointRadius: 0,
+          borderWidth: 2,
+        },
+      ]
+    }),
+  }
+
+  const schildChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { position: 'top' as const },
+      title: {
+        display: true,
+        text: `Schild Plot — Competitive Antagonism on ${preparation.name}`,
+        font: { size: 16 },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        title: { display: true, text: 'Log₁₀[Antagonist] (M)' },
+      },
+      y: {
+        type: 'linear' as const,
+        title: { display: true, text: 'Log₁₀(Dose Ratio − 1)' },
+      },
+    },
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+
+      {/* Continue / Fresh Start Dialog */}
+      {showContinueDialog && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full mx-4 border border-slate-200">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center">
+                <span className="text-blue-600 text-xl">↩</span>
+              </div>
+              <h2 className="text-xl font-bold text-slate-800">Previous Session Found</h2>
+            </div>
+            <p className="text-slate-600 mb-6">
+              You have an unfinished experiment session. Would you like to continue from where you left off, or start a fresh experiment?
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={handleContinue}
+                className="flex-1 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+              >
+                Continue Session
+              </button>
+              <button
+                onClick={handleFreshStart}
+                className="flex-1 py-3 border border-red-200 text-red-600 rounded-lg font-medium hover:bg-red-50 transition-colors"
+              >
+                Fresh Start
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Bioassay Result */}
+      {showAssayResult && unknownSample && unknownSample.estimate !== null && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-lg w-full mx-4 border border-slate-200">
+            <h2 className="text-xl font-bold text-slate-800 mb-4">Bioassay Result — Unknown #{assayCount}</h2>
+            <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+              <div className="bg-slate-50 rounded-lg p-3">
+                <div className="text-xs text-slate-500">Actual</div>
+                <div className="text-lg font-semibold">{formatConcentration(unknownSample.concentration, concentrationUnit, primaryAgonist.molecularWeight, 2)} {concentrationUnit}</div>
+              </div>
+              <div className="bg-slate-50 rounded-lg p-3">
+                <div className="text-xs text-slate-500">Your Estimate</div>
+                <div className="text-lg font-semibold">{formatConcentration(unknownSample.estimate, concentrationUnit, primaryAgonist.molecularWeight, 2)} {concentrationUnit}</div>
+              </div>
+              <div className="bg-slate-50 rounded-lg p-3">
+                <div className="text-xs text-slate-500">Error</div>
+                <div className={`text-lg font-semibold ${Math.abs(percentError(unknownSample.estimate, unknownSample.concentration)) <= 20 ? 'text-emerald-600' : 'text-red-600'}`}>
+                  {percentError(unknownSample.estimate, unknownSample.concentration).toFixed(1)}%
+                </div>
+              </div>
+            </div>
+            {bracketedEstimate !== null ? (
+              <div className="text-sm text-slate-600 mb-6 space-y-1">
+                <p>
+                  Bracketing your recorded responses gives {formatConcentration(bracketedEstimate, concentrationUnit, primaryAgonist.molecularWeight, 1)} {concentrationUnit}
+                  ({percentError(bracketedEstimate, unknownSample.concentration).toFixed(1)}% error).
+                </p>
+                {assayBrackets.map((b, i) => (
+                  <p key={i} className="text-xs text-slate-500">
+                    {b.sampleVolume} mL → {b.sampleResponse.toFixed(1)}% between {b.lower.percentResponse.toFixed(1)}% and {b.upper.percentResponse.toFixed(1)}%
+                    {' '}(bath {formatConcentration(b.lower.concInBath, concentrationUnit, primaryAgonist.molecularWeight)}–{formatConcentration(b.upper.concInBath, concentrationUnit, primaryAgonist.molecularWeight)} {concentrationUnit})
+                  </p>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500 mb-6">
+                No sample response could be bracketed between two recorded standard responses.
+              </p>
+            )}
+            <button
+              onClick={() => setShowAssayResult(false)}
+              className="w-full py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+      <div className="max-w-7xl mx-auto px-5 py-8">
+        <div className="flex items-center justify-between mb-10">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-800">{primaryAgonist.name} Dose-Response Curve</h1>
+            <p className="text-slate-600">{preparation.name} – Kymograph Simulation</p>
+          </div>
+          <Link href="/" className="flex items-center gap-2 px-5 py-2.5 bg-white rounded-lg shadow-sm border hover:bg-slate-50">
+            <Home size={18} /> Home
+          </Link>
+        </div>
+
+        <div className="flex border-b mb-8">
+          {[
+            { id: 'theory', label: 'Theory', icon: BookOpen },
+            { id: 'setup', label: 'Setup', icon: Settings },
+            { id: 'observation', label: 'Observation', icon: ClipboardList },
+            { id: 'graphs', label: 'Graphs', icon: BarChart3 },
+          ].map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => handleTabChange(tab.id as 'theory' | 'setup' | 'observation' | 'graphs')}
+              className={`flex-1 py-4 px-6 font-medium flex items-center justify-center gap-2 border-b-2 transition-colors ${activeTab === tab.id
                 ? 'border-blue-600 text-blue-700'
                 : 'border-transparent text-slate-500 hover:text-slate-700'
                 }`}
@@ -965,7 +1670,7 @@ export default function Exp1Page() {
                   {allItems.map(item => {
                     if (item.type === 'image') {
                       const img = item as SubImage
-                      const rot = img.rotation || 0
+                      const rot = leverAngles[img.id] ?? (img.rotation || 0)
                       let origin = 'center'
                       if (img.centerX && img.centerY) {
                         origin = `${((img.centerX - img.x) / img.width) * 100}% ${((img.centerY - img.y) / img.height) * 100}%`
@@ -1053,6 +1758,19 @@ export default function Exp1Page() {
                   })}
                 </div>
               </div>
+              {recordingMode === 'isometric' && (
+                <div className="p-6 border-t">
+                  <h3 className="font-medium mb-3">
+                    Physiograph
+                    <span className="ml-2 text-sm font-normal text-slate-500">
+                      {calibration ? `calibrated, ${calibration.weight} g = ${calibration.signal.toFixed(1)} mV` : 'not calibrated'}
+                    </span>
+                  </h3>
+                  <div className="h-64 bg-rose-50/40">
+                    <Line data={physiographData} options={physiographChartOptions(PHYSIOGRAPH_WINDOW)} />
+                  </div>
+                </div>
+              )}
             </div>
 
             <div className="lg:col-span-4 space-y-6">
@@ -1060,6 +1778,156 @@ export default function Exp1Page() {
                 <h3 className="font-medium mb-4">Parameters</h3>
                 <div className="space-y-5">
                   <div className="space-y-5 transition-opacity duration-300 opacity-100">
+                    <div>
+                      <label className="block text-sm text-slate-600 mb-1.5">Preparation</label>
+                      <select
+                        value={preparation.id}
+                        onChange={e => setPreparation(e.target.value)}
+                        disabled={experimentRunning || isAutoSample || observations.length > 0}
+                        title={observations.length > 0 ? 'Reset the experiment to mount a different preparation' : undefined}
+                        className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                      >
+                        {PREPARATIONS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm text-slate-600 mb-1.5">Recording</label>
+                      <select
+                        value={recordingMode}
+                        onChange={e => setRecordingMode(e.target.value as RecordingMode)}
+                        disabled={experimentRunning || isAutoSample || observations.length > 0}
+                        title={observations.length > 0 ? 'Reset the experiment to change the recording method' : undefined}
+                        className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                      >
+                        <option value="isotonic">Isotonic lever (kymograph, mm)</option>
+                        <option value="isometric">Isometric transducer (physiograph, g)</option>
+                      </select>
+                    </div>
+                    {recordingMode === 'isometric' && (
+                      <div>
+                        <label className="block text-sm text-slate-600 mb-1.5">Calibration Weight (g)</label>
+                        <div className="flex gap-2">
+                          <select
+                            value={calibrationWeight}
+                            onChange={e => setCalibrationWeight(Number(e.target.value))}
+                            disabled={experimentRunning}
+                            className="flex-1 border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                          >
+                            {CALIBRATION_WEIGHTS.map(w => <option key={w} value={w}>{w}</option>)}
+                          </select>
+                          <button
+                            onClick={performCalibration}
+                            disabled={experimentRunning || isAutoSample}
+                            title="Hang the weight on the transducer and record the deflection"
+                            className="px-3 py-2 border rounded-lg text-sm hover:bg-slate-50 disabled:opacity-50"
+                          >
+                            Calibrate
+                          </button>
+                        </div>
+                        <p className={`mt-1 text-xs ${calibration ? 'text-slate-500' : 'text-amber-600'}`}>
+                          {calibration
+                            ? `${calibration.weight} g gave ${calibration.signal.toFixed(1)} mV; the physiograph now reads in grams.`
+                            : 'Calibrate the transducer before the first dose.'}
+                        </p>
+                      </div>
+                    )}
+                    <div>
+                      <label className="block text-sm text-slate-600 mb-1.5">Protocol</label>
+                      <select
+                        value={protocol}
+                        onChange={e => setProtocol(e.target.value as 'single' | 'cumulative')}
+                        disabled={experimentRunning || isAutoSample || bathConcentration > 0}
+                        title={bathConcentration > 0 ? 'Wash the bath before changing protocol' : undefined}
+                        className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                      >
+                        <option value="single">Single dose (wash between doses)</option>
+                        <option value="cumulative">Cumulative (van Rossum)</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm text-slate-600 mb-1.5">Assay of Unknown</label>
+                      <select
+                        value={assayDesign ?? ''}
+                        onChange={e => setAssayDesign((e.target.value || null) as AssayDesign | null)}
+                        disabled={experimentRunning || isAutoSample || assayInProgress}
+                        title={assayInProgress ? 'Finish the current assay before changing its design' : undefined}
+                        className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                      >
+                        <option value="">None</option>
+                        <option value="three-point">Three-point (2 standard + 1 test)</option>
+                        <option value="four-point">Four-point (2 standard + 2 test)</option>
+                      </select>
+                    </div>
+                    {assayDesign && (
+                      <div className="grid grid-cols-2 gap-3">
+                        {assayDoses.map(dose => (
+                          <div key={dose}>
+                            <label className="block text-sm text-slate-600 mb-1.5">{dose} (mL)</label>
+                            <select
+                              value={assayVolumes[dose]}
+                              onChange={e => setAssayVolumes({ ...assayVolumes, [dose]: Number(e.target.value) })}
+                              disabled={experimentRunning || isAutoSample || assayInProgress}
+                              className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                            >
+                              {availableConcentrations.map(v => <option key={v} value={v}>{v}</option>)}
+                            </select>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <div>
+                      <label className="block text-sm text-slate-600 mb-1.5">Agonist</label>
+                      <select
+                        value={selectedAgonist}
+                        onChange={e => setSelectedAgonist(e.target.value)}
+                        disabled={experimentRunning || isAutoSample || bathConcentration > 0}
+                        className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                      >
+                        {preparationAgonists(preparationId).map(a => (
+                          <option key={a.id} value={a.id}>
+                            {a.name}{findAgonistProfile(a.id, preparationId).intrinsicActivity < 1 ? ' (partial agonist)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm text-slate-600 mb-1.5">Second Agonist (combination)</label>
+                      <select
+                        value={selectedSecondAgonist && selectedSecondAgonist !== selectedAgonist ? selectedSecondAgonist : ''}
+                        onChange={e => setSelectedSecondAgonist(e.target.value || null)}
+                        disabled={experimentRunning || isAutoSample || bathConcentration > 0}
+                        className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                      >
+                        <option value="">None (single agonist)</option>
+                        {preparationAgonists(preparationId).filter(a => a.id !== selectedAgonist).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                    </div>
+                    {selectedSecondAgonist && selectedSecondAgonist !== selectedAgonist && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-sm text-slate-600 mb-1.5">Ratio in Bath</label>
+                          <select
+                            value={combinationRatio}
+                            onChange={e => setCombinationRatio(Number(e.target.value))}
+                            disabled={experimentRunning || isAutoSample || bathConcentration > 0}
+                            className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                          >
+                            {COMBINATION_RATIOS.map(v => <option key={v} value={v}>1 : {v}</option>)}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-sm text-slate-600 mb-1.5">Interaction</label>
+                          <select
+                            value={interactionModel}
+                            onChange={e => setInteractionModel(e.target.value as InteractionModel)}
+                            disabled={experimentRunning || isAutoSample || bathConcentration > 0}
+                            className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60 capitalize"
+                          >
+                            {INTERACTION_MODELS.map(m => <option key={m} value={m}>{m}</option>)}
+                          </select>
+                        </div>
+                      </div>
+                    )}
                     <div>
                       <label className="block text-sm text-slate-600 mb-1.5">Stock Concentration (µg/mL)</label>
                       <select
@@ -1069,8 +1937,36 @@ export default function Exp1Page() {
                         className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
                       >
                         {availableBaselines.map(v => <option key={v} value={v}>{v}</option>)}
+                        <optgroup label="Above the usual range">
+                          {overdoseBaselines.map(v => <option key={v} value={v}>{v}</option>)}
+                        </optgroup>
                       </select>
                     </div>
+                    <div>
+                      <label className="block text-sm text-slate-600 mb-1.5">Stock Storage</label>
+                      <div className="flex gap-2">
+                        <select
+                          value={stockStorage}
+                          onChange={e => setStockStorage(e.target.value as StockStorage)}
+                          disabled={experimentRunning || isAutoSample}
+                          className="flex-1 border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                        >
+                          <option value="ice">On ice</option>
+                          <option value="room-temperature">Room temperature</option>
+                        </select>
+                        <button
+                          onClick={handlePrepareFreshStock}
+                          disabled={experimentRunning || isAutoSample}
+                          title="Make up the stock solutions again from the solid drug"
+                          className="px-3 py-2 border rounded-lg text-sm hover:bg-slate-50 disabled:opacity-50"
+                        >
+                          Prepare fresh stock
+                        </button>
+                      </div>
+                      <p className="mt-1 text-xs text-slate-500">
+                        Made up {Math.round(simulatedMinutes(stockPreparedAt, now))} min ago (simulated time)
+                      </p>
+                    </div>
                     <div>
                       <label className="block text-sm text-slate-600 mb-1.5">Volume (mL)</label>
                       <select
@@ -1080,8 +1976,118 @@ export default function Exp1Page() {
                         className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
                       >
                         {availableConcentrations.map(v => <option key={v} value={v}>{v}</option>)}
+                        <optgroup label="Above the usual range">
+                          {OVERDOSE_VOLUMES.map(v => <option key={v} value={v}>{v}</option>)}
+                        </optgroup>
                       </select>
                     </div>
+                    <div>
+                      <label className="block text-sm text-slate-600 mb-1.5">Drum Speed (mm/s)</label>
+                      <select
+                        value={drumSpeed}
+                        onChange={e => setDrumSpeed(Number(e.target.value))}
+                        disabled={experimentRunning || isAutoSample}
+                        className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                      >
+                        {DRUM_SPEEDS.map(v => <option key={v} value={v}>{v}</option>)}
+                      </select>
+                      <p className="mt-1 text-xs text-slate-500">
+                        Time marks every {TIME_MARK_INTERVAL} s, longer every {MAJOR_TIME_MARK} s ({drumSpeed * TIME_MARK_INTERVAL} mm apart)
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm text-slate-600 mb-1.5">Lever Magnification</label>
+                      <select
+                        value={magnification}
+                        onChange={e => setMagnification(Number(e.target.value))}
+                        disabled={experimentRunning || isAutoSample}
+                        className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                      >
+                        {MAGNIFICATIONS.map(v => <option key={v} value={v}>×{v}</option>)}
+                      </select>
+                      <p className="mt-1 text-xs text-slate-500">
+                        The pen rises {magnification} times as far as the tissue shortens
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm text-slate-600 mb-1.5">Contact Time (s)</label>
+                      <select
+                        value={contactTime}
+                        onChange={e => setContactTime(Number(e.target.value))}
+                        disabled={experimentRunning || isAutoSample}
+                        className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                      >
+                        {CONTACT_TIMES.map(v => <option key={v} value={v}>{v}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm text-slate-600 mb-1.5">Antagonist (pre-incubated)</label>
+                      <select
+                        value={selectedAntagonist ?? ''}
+                        onChange={e => selectAntagonist(e.target.value || null)}
+                        disabled={experimentRunning || isAutoSample}
+                        className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                      >
+                        <option value="">None (control)</option>
+                        {ANTAGONISTS.filter(a => preparation.antagonists.some(p => p.antagonistId === a.id)).map(a => (
+                          <option key={a.id} value={a.id}>{a.name} ({a.mechanism})</option>
+                        ))}
+                      </select>
+                    </div>
+                    {selectedAntagonist && (
+                      <div>
+                        <label className="block text-sm text-slate-600 mb-1.5">Antagonist in Bath (µM)</label>
+                        <select
+                          value={antagonistConcentration}
+                          onChange={e => setAntagonistConcentration(Number(e.target.value))}
+                          disabled={experimentRunning || isAutoSample}
+                          className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                        >
+                          {antagonistConcentrations.map(v => <option key={v} value={v}>{v}</option>)}
+                        </select>
+                      </div>
+                    )}
+                    <div>
+                      <label className="block text-sm text-slate-600 mb-1.5">Anticholinesterase Pretreatment</label>
+                      <select
+                        value={selectedAnticholinesterase ?? ''}
+                        onChange={e => setSelectedAnticholinesterase(e.target.value || null)}
+                        disabled={experimentRunning || isAutoSample}
+                        className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                      >
+                        <option value="">None</option>
+                        {ANTICHOLINESTERASES.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                    </div>
+                    {hasRhythm(rhythm) && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-sm text-slate-600 mb-1.5">Rhythm Modulator</label>
+                          <select
+                            value={selectedRhythmModulator ?? ''}
+                            onChange={e => setSelectedRhythmModulator(e.target.value || null)}
+                            disabled={experimentRunning || isAutoSample}
+                            className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                          >
+                            <option value="">None</option>
+                            {RHYTHM_MODULATORS.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                          </select>
+                        </div>
+                        {selectedRhythmModulator && (
+                          <div>
+                            <label className="block text-sm text-slate-600 mb-1.5">In Bath (µg/mL)</label>
+                            <select
+                              value={rhythmModulatorConcentration}
+                              onChange={e => setRhythmModulatorConcentration(Number(e.target.value))}
+                              disabled={experimentRunning || isAutoSample}
+                              className="w-full border rounded-lg px-3 py-2.5 disabled:opacity-60"
+                            >
+                              {(findRhythmModulator(selectedRhythmModulator)?.concentrations ?? []).map(v => <option key={v} value={v}>{v}</option>)}
+                            </select>
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -1114,13 +2120,50 @@ export default function Exp1Page() {
                   <button
                     onClick={performSample}
                     disabled={experimentRunning || isAutoSample}
-                    title="Automatically run a full cycle with a random concentration"
+                    title="Run a full cycle with the unknown sample at the selected volume"
                     className="py-3 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 disabled:opacity-50 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
                   >
                     Sample Test
                   </button>
+
+                  {assayDesign && (
+                    <button
+                      onClick={performAssayDose}
+                      disabled={experimentRunning || isAutoSample}
+                      title="Give the next standard or test dose in the Latin-square sequence"
+                      className="col-span-2 py-3 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 disabled:opacity-50 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {!unknownSample || unknownSample.estimate !== null
+                        ? 'Start Assay'
+                        : nextAssayDose ? `Next Assay Dose (${nextAssayDose})` : 'Assay Complete'}
+                    </button>
+                  )}
                 </div>
 
+                <div className="mt-4 flex items-center justify-between">
+                  <span className="text-sm text-slate-600">Drum</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={toggleDrum}
+                      className={`px-4 py-1.5 rounded text-sm font-medium ${clock.running ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-700'
+                        }`}
+                    >
+                      {clock.running ? 'Pause' : 'Play'}
+                    </button>
+                    <select
+                      value={clock.rate}
+                      onChange={e => setClockRate(Number(e.target.value))}
+                      title="Fast-forward"
+                      className="border rounded px-2 py-1.5 text-sm"
+                    >
+                      {CLOCK_RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+                    </select>
+                  </div>
+                </div>
+                <p className="mt-1 text-xs text-slate-500">
+                  {formatClock(mountedAt, now)} since the tissue was mounted. The clock stops while paused; baseline, doses and washes start it.
+                </p>
+
                 <div className="mt-4 flex items-center justify-between">
                   <span className="text-sm text-slate-600">Auto-scroll</span>
                   <button
@@ -1141,12 +2184,333 @@ export default function Exp1Page() {
                 </button>
               </div>
 
+              <div className="bg-white rounded-xl shadow border p-6">
+                <h3 className="font-medium mb-3">Tissue Preparation</h3>
+                <div className="space-y-4 text-sm">
+                  <div>
+                    <label className="block text-slate-600 mb-1.5">Preparation Seed</label>
+                    <input
+                      type="number"
+                      value={seed}
+                      onChange={e => setSeed(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                      disabled={experimentRunning || observations.length > 0}
+                      className="w-full border rounded-lg px-3 py-2 disabled:opacity-60"
+                    />
+                    <p className="mt-1 text-xs text-slate-500">
+                      {observations.length > 0
+                        ? 'Reset the experiment to change the preparation. Note this seed to reproduce the session.'
+                        : 'Each reset draws a new preparation. Enter a saved seed to reproduce a session exactly.'}
+                    </p>
+                  </div>
+                  <details>
+                    <summary className="cursor-pointer text-slate-600">Variability settings</summary>
+                    <div className="mt-3 grid grid-cols-2 gap-3">
+                      {([
+                        { key: 'ec50CV', label: 'EC50 spread (%)' },
+                        { key: 'hillCV', label: 'Hill slope CV (%)' },
+                        { key: 'emaxCV', label: 'Emax spread (%)' },
+                        { key: 'noiseCV', label: 'Response noise (%)' },
+                      ] as { key: keyof VariabilityConfig; label: string }[]).map(field => (
+                        <div key={field.key}>
+                          <label className="block text-xs text-slate-500 mb-1">{field.label}</label>
+                          <input
+                            type="number"
+                            min={0}
+                            step={1}
+                            value={Math.round(variability[field.key] * 100)}
+                            onChange={e => setVariability({ ...variability, [field.key]: Math.max(0, Number(e.target.value) || 0) / 100 })}
+                            disabled={experimentRunning || observations.length > 0}
+                            className="w-full border rounded px-2 py-1.5 disabled:opacity-60"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </details>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-slate-600 mb-1.5">Rhythm (per min)</label>
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={rhythm.frequency}
+                        onChange={e => setRhythm({ ...rhythm, frequency: Math.max(0, Number(e.target.value) || 0) })}
+                        disabled={experimentRunning}
+                        className="w-full border rounded-lg px-3 py-2 disabled:opacity-60"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-slate-600 mb-1.5">Amplitude (%)</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={50}
+                        step={1}
+                        value={rhythm.amplitude}
+                        onChange={e => setRhythm({ ...rhythm, amplitude: Math.min(50, Math.max(0, Number(e.target.value) || 0)) })}
+                        disabled={experimentRunning}
+                        className="w-full border rounded-lg px-3 py-2 disabled:opacity-60"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <button
+                      onClick={handleMountFreshPreparation}
+                      disabled={experimentRunning || isAutoSample || flowStep === 'WASH'}
+                      title="Replace the tired tissue with a fresh piece from the same animal"
+                      className="w-full py-2 border rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                    >
+                      Mount fresh preparation
+                    </button>
+                    <p className="mt-1 text-xs text-slate-500">
+                      Resets fatigue and baseline drift. The lab clock moves on {EQUILIBRATION_MINUTES} min while it equilibrates, and the stocks keep ageing.
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-xl shadow border p-6">
+                <h3 className="font-medium mb-3">Recording Channels</h3>
+                <div className="space-y-3 text-sm">
+                  {channels.map(channel => (
+                    <div key={channel.id} className="flex items-center gap-2">
+                      <span className="flex-1 text-slate-600">{channel.name}</span>
+                      <select
+                        value={channel.role}
+                        onChange={e => setChannelRole(channel.id, e.target.value as ChannelRole)}
+                        disabled={experimentRunning}
+                        className="border rounded-lg px-2 py-1.5 disabled:opacity-60"
+                      >
+                        {CHANNEL_ROLES.map(role => (
+                          <option key={role} value={role}>{role === 'test' ? 'Test' : 'Control'}</option>
+                        ))}
+                      </select>
+                      {channel.added && (
+                        <button
+                          onClick={() => dropChannel(channel)}
+                          disabled={experimentRunning}
+                          className="px-2 py-1.5 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  <button
+                    onClick={addRecordingChannel}
+                    disabled={experimentRunning}
+                    className="w-full py-2 border rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                  >
+                    Add channel
+                  </button>
+                  <p className="text-xs text-slate-500">
+                    Every tissue gets the same agonist doses; a control gets none of the antagonist, pretreatment, second agonist or rhythm modulator. Sample and assay doses are recorded on the first channel only.
+                  </p>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-xl shadow border p-6">
+                <h3 className="font-medium mb-3">Bath Conditions</h3>
+                <div className="space-y-4 text-sm">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-slate-600 mb-1.5">Solution</label>
+                      <select
+                        value={bathConditions.solutionId}
+                        onChange={e => updateBathConditions({ solutionId: e.target.value, calcium: findSolution(e.target.value).calcium })}
+                        disabled={experimentRunning}
+                        className="w-full border rounded-lg px-3 py-2 disabled:opacity-60"
+                      >
+                        {SOLUTIONS.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-slate-600 mb-1.5">Temperature (°C)</label>
+                      <select
+                        value={bathConditions.temperature}
+                        onChange={e => updateBathConditions({ temperature: Number(e.target.value) })}
+                        disabled={experimentRunning}
+                        className="w-full border rounded-lg px-3 py-2 disabled:opacity-60"
+                      >
+                        {BATH_TEMPERATURES.map(t => <option key={t} value={t}>{t}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-slate-600 mb-1.5">Ca²⁺ (mM)</label>
+                      <select
+                        value={bathConditions.calcium}
+                        onChange={e => updateBathConditions({ calcium: Number(e.target.value) })}
+                        disabled={experimentRunning}
+                        className="w-full border rounded-lg px-3 py-2 disabled:opacity-60"
+                      >
+                        {CALCIUM_CONCENTRATIONS.map(c => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-slate-600 mb-1.5">Aeration</label>
+                      <button
+                        onClick={() => updateBathConditions({ aerated: !bathConditions.aerated })}
+                        disabled={experimentRunning}
+                        className={`w-full px-3 py-2 rounded-lg font-medium disabled:opacity-60 ${bathConditions.aerated ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}
+                      >
+                        {bathConditions.aerated ? 'ON' : 'OFF'}
+                      </button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    Standard for this preparation: {findSolution(preparation.solutionId).name}, {preparation.temperature}°C,
+                    Ca²⁺ {findSolution(preparation.solutionId).calcium} mM, aerated.
+                  </p>
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <span className="text-slate-600">Maximal response</span>
+                      <span className={`font-medium ${currentBath.emaxFactor < 0.8 ? 'text-amber-600' : ''}`}>
+                        {(currentBath.emaxFactor * 100).toFixed(0)}%
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-600">EC50 shift</span>
+                      <span className={`font-medium ${currentBath.ec50Factor > 1.25 ? 'text-amber-600' : ''}`}>
+                        ×{currentBath.ec50Factor.toFixed(2)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-600">Oxygenation</span>
+                      <span className={`font-medium ${currentBath.oxygenation < 0.8 ? 'text-red-600' : ''}`}>
+                        {(currentBath.oxygenation * 100).toFixed(0)}%
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+
               <div className="bg-white rounded-xl shadow border p-6">
                 <h3 className="font-medium mb-3">Status</h3>
                 <div className="space-y-3 text-sm">
                   <div className="flex justify-between">
                     <span className="text-slate-600">Rotation</span>
-                    <span className="font-medium">{Math.round(Math.abs(currentLeverRotation))}°</span>
+                    <span className="font-medium">{channels.map(channel => `${Math.round(Math.abs(leverAngles[channel.leverId] ?? 0))}°`).join(' / ') || '—'}</span>
+                  </div>
+                  {leverScale && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">Lever</span>
+                        <span className="font-medium">
+                          {leverScale.lengthMm.toFixed(0)} mm, thread at {LOAD_ARM} mm (×{leverScale.magnification})
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">Calibration</span>
+                        <span className="font-medium">
+                          {leverScale.mmPerPx.toFixed(2)} mm/px, {(leverScale.tissueMmPerPx * 1000).toFixed(0)} µm tissue/px
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">Grid</span>
+                        <span className="font-medium">{(GRID_SPACING * leverScale.mmPerPx).toFixed(1)} mm of rise per line</span>
+                      </div>
+                      {fullScale && (
+                        <div className="flex justify-between">
+                          <span className="text-slate-600">Full scale</span>
+                          <span className={`font-medium ${fullScale.clipped ? 'text-amber-600' : ''}`}>
+                            {fullScale.clipped ? '≥ ' : ''}{fullScale.mm.toFixed(1)} mm of pen rise{fullScale.clipped && ', off the paper'}
+                          </span>
+                        </div>
+                      )}
+                    </>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">Bath</span>
+                    <span className="font-medium">
+                      {preparation.bathVolume} mL {findSolution(bathConditions.solutionId).name}, {bathConditions.temperature}°C
+                      {!bathConditions.aerated && ', not aerated'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">Agonist</span>
+                    <span className="font-medium">
+                      {findAgonist(selectedAgonist).name}
+                      {selectedSecondAgonist && selectedSecondAgonist !== selectedAgonist && ` + ${findAgonist(selectedSecondAgonist).shortName} ×${combinationRatio}`}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">Contractions</span>
+                    <span className={`font-medium ${currentFatigue < 0.8 ? 'text-amber-600' : ''}`}>
+                      {contractionCount} (Emax {(currentFatigue * 100).toFixed(0)}%)
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">Tissue Damage</span>
+                    <span className={`font-medium ${tissueResponsiveness(tissueDamage) < USABLE_RESPONSIVENESS ? 'text-red-600' : tissueResponsiveness(tissueDamage) < 1 ? 'text-amber-600' : ''}`}>
+                      {tissueResponsiveness(tissueDamage) >= 1
+                        ? 'None'
+                        : `${Math.round((1 - tissueResponsiveness(tissueDamage)) * 100)}% (${Math.round(tissueDamage.irreversible * 100)}% permanent)`}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">Baseline Drift</span>
+                    <span className="font-medium">
+                      {currentDrift > 0 ? '+' : ''}{currentDrift.toFixed(1)}%
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">Stock Potency</span>
+                    <span className={`font-medium ${currentStockPotency < 0.8 ? 'text-amber-600' : ''}`}>
+                      {(currentStockPotency * 100).toFixed(0)}%
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">Agonist in Bath</span>
+                    <span className="font-medium">
+                      {/* The unknown (or a T dose of the assay) stays hidden until it is washed out */}
+                      {bathConcentration === 0 ? 'Washed' : isAutoSample ? 'Unknown sample' : `${formatConcentration(bathConcentration, concentrationUnit, findAgonist(selectedAgonist).molecularWeight)} ${concentrationUnit}${protocol === 'cumulative' ? ' (cumulative)' : ''}`}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">Antagonist</span>
+                    <span className="font-medium">
+                      {findAntagonist(selectedAntagonist) ? describeTreatment({ antagonistId: selectedAntagonist, antagonistConcentration }) : 'None'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">Spontaneous Activity</span>
+                    <span className="font-medium">
+                      {!hasRhythm(rhythm)
+                        ? 'None'
+                        : currentRhythmAmplitude < 0.5
+                          ? 'Abolished'
+                          : `${rhythm.frequency}/min, ${currentRhythmAmplitude.toFixed(1)}%`}
+                      {selectedRhythmModulator && hasRhythm(rhythm) && ` (${findRhythmModulator(selectedRhythmModulator)?.shortName} ${rhythmModulatorConcentration} µg/mL)`}
+                    </span>
+                  </div>
+                  {recordingMode === 'isometric' && (
+                    <div className="flex justify-between">
+                      <span className="text-slate-600">Transducer</span>
+                      <span className="font-medium">
+                        {calibration ? `${calibration.weight} g = ${calibration.signal.toFixed(1)} mV` : 'Not calibrated'}
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-slate-600">Pretreatment</span>
+                    <span className="font-medium">{findAnticholinesterase(selectedAnticholinesterase)?.name ?? 'None'}</span>
+                  </div>
+                  <div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-600">Tissue Sensitivity</span>
+                      <span className="font-medium">{(tissueSensitivity * 100).toFixed(0)}%</span>
+                    </div>
+                    <div className="mt-1.5 h-2 rounded-full bg-slate-100 overflow-hidden">
+                      <div
+                        className={`h-full transition-all ${tissueSensitivity > 0.9 ? 'bg-emerald-500' : tissueSensitivity > 0.7 ? 'bg-amber-500' : 'bg-red-500'}`}
+                        style={{ width: `${tissueSensitivity * 100}%` }}
+                      />
+                    </div>
+                    {tissueSensitivity < 0.9 && (
+                      <p className="mt-1 text-xs text-slate-500">
+                        {bathConcentration > 0 ? 'Agonist still in bath — wash to let the tissue recover' : 'Recovering — wait before the next dose'}
+                      </p>
+                    )}
                   </div>
                   <div className="flex justify-between">
                     <span className="text-slate-600">State</span>
@@ -1188,24 +2552,25 @@ export default function Exp1Page() {
               </div>
               <div className="border border-slate-200 rounded overflow-x-auto">
                 {imageData.drawableAreas.map(area => {
-                  const displayScale = 0.8
-                  const usedWidth = Math.max(currentGraphX + 100, area.scrollWidth)
-                  const storedData = canvasData[area.id]
+                  const trace = traces[area.id]
+                  const channel = channels.find(c => c.areaId === area.id)
 
                   return (
                     <div key={area.id} className="mb-4">
-                      <div className="overflow-x-auto overflow-y-hidden border border-slate-200 rounded">
-                        {/* 
-                           Here we use an IMG instead of Canvas for observation if data exists, 
-                           which is much more reliable than trying to clone a canvas that might not exist 
-                        */}
-                        {storedData ? (
-                          <img
-                            src={storedData}
-                            alt="Graph Recording"
+                      {channel && (
+                        <p className="px-2 pt-2 text-xs font-medium text-slate-600">
+                          {channel.name} <span className="font-normal text-slate-400">({channel.role})</span>
+                        </p>
+                      )}
+                      <div
+                        ref={el => { if (el) recordingScrollRefs.current[area.id] = el }}
+                        className="overflow-x-auto overflow-y-hidden border border-slate-200 rounded"
+                      >
+                        {/* Painted from the stored samples by the effect above, at RECORDING_SCALE */}
+                        {trace && trace.samples.length > 0 ? (
+                          <canvas
+                            ref={el => { if (el) recordingCanvasRefs.current[area.id] = el }}
                             style={{
-                              width: `${(canvasWidths[area.id] || Math.max(area.scrollWidth * 5, 8000)) * displayScale}px`,
-                              height: `${area.height * displayScale}px`,
                               maxWidth: 'none', // Ensure it doesn't shrink
                               display: 'block'
                             }}
@@ -1221,6 +2586,18 @@ export default function Exp1Page() {
                   )
                 })}
               </div>
+              {recordingMode === 'isometric' && (
+                <div className="mt-6">
+                  <h3 className="font-medium mb-3">Physiograph Recording</h3>
+                  {forceTrace.length === 0 ? (
+                    <div className="p-10 text-center text-gray-400 border border-slate-200 rounded">No tension recorded yet</div>
+                  ) : (
+                    <div className="h-64 bg-rose-50/40 border border-slate-200 rounded">
+                      <Line data={physiographData} options={physiographChartOptions()} />
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="bg-white rounded-xl shadow border overflow-hidden">
@@ -1230,13 +2607,14 @@ export default function Exp1Page() {
               </div>
               <div className="px-6 py-4 border-b">
                 <div className="flex items-center gap-4">
-                  <label className="text-sm font-medium text-slate-600">Maximum Response (mm):</label>
+                  <label className="text-sm font-medium text-slate-600">Maximum Response ({responseUnit}):</label>
                   <input
                     type="number"
                     value={maxResponse}
                     onChange={e => setMaxResponse(Number(e.target.value))}
                     className="w-32 px-3 py-2 border rounded focus:border-blue-500"
                   />
+                  <div className="ml-auto">{unitSelector}</div>
                 </div>
               </div>
               <div className="overflow-x-auto">
@@ -1244,41 +2622,66 @@ export default function Exp1Page() {
                   <thead className="bg-slate-50">
                     <tr>
                       <th className="px-6 py-4 text-left font-medium text-slate-600">S.No</th>
-                      <th className="px-6 py-4 text-left font-medium text-slate-600">Conc. ACh (µg/mL)</th>
+                      <th className="px-6 py-4 text-left font-medium text-slate-600">Channel</th>
+                      <th className="px-6 py-4 text-left font-medium text-slate-600">Agonist</th>
+                      <th className="px-6 py-4 text-left font-medium text-slate-600">Stock Conc. ({concentrationUnit})</th>
                       <th className="px-6 py-4 text-left font-medium text-slate-600">Amount Added (mL)</th>
-                      <th className="px-6 py-4 text-left font-medium text-slate-600">Conc. in Bath</th>
-                      <th className="px-6 py-4 text-left font-medium text-slate-600">Response (mm)</th>
+                      <th className="px-6 py-4 text-left font-medium text-slate-600">Conc. in Bath ({concentrationUnit})</th>
+                      <th className="px-6 py-4 text-left font-medium text-slate-600">Antagonist (µM) / Pretreatment</th>
+                      <th className="px-6 py-4 text-left font-medium text-slate-600">Response ({responseUnit})</th>
                       <th className="px-6 py-4 text-left font-medium text-slate-600"> % Response</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y">
                     {observations.length === 0 ? (
                       <tr>
-                        <td colSpan={6} className="py-12 text-center text-slate-400">
+                        <td colSpan={9} className="py-12 text-center text-slate-400">
                           No observations yet
                         </td>
                       </tr>
                     ) : (
                       observations.map((obs, i) => (
                         <tr key={i} className={obs.isSample ? "bg-purple-50 hover:bg-purple-100" : "hover:bg-slate-50"}>
-                          <td className="px-6 py-4">{obs.sNo}</td>
-                          <td className="px-6 py-4">{obs.concentration.toFixed(2)}</td>
+                          <td className="px-6 py-4">
+                            {events.some(e => e.sNos?.includes(obs.sNo) && Object.keys(e.x).length > 0) ? (
+                              <button
+                                onClick={() => showOnRecording(obs.sNo)}
+                                title="Show this dose on the recording"
+                                className={`underline decoration-dotted hover:text-blue-600 ${highlightedSNo === obs.sNo ? 'font-semibold text-blue-600' : ''}`}
+                              >
+                                {obs.sNo}
+                              </button>
+                            ) : obs.sNo}
+                            {obs.assayDose && <span className="ml-2 text-xs text-purple-600">{obs.assayDose}</span>}
+                          </td>
+                          <td className="px-6 py-4">{channels.find(c => c.id === (obs.channelId ?? channels[0]?.id))?.name ?? '—'}</td>
+                          <td className="px-6 py-4">
+                            {findAgonist(obs.agonistId).shortName}
+                            {describeCombination(obs) && <span className="block text-xs text-slate-500">+ {describeCombination(obs)}</span>}
+                          </td>
+                          <td className="px-6 py-4">
+                            {isHiddenSample(obs) ? `Unknown #${obs.assayNumber}` : formatConcentration(obs.concentration, concentrationUnit, findAgonist(obs.agonistId).molecularWeight, 2)}
+                          </td>
                           <td className="px-6 py-4">{obs.amountAdded.toFixed(2)}</td>
-                          <td className="px-6 py-4">{obs.concInBath.toFixed(4)}</td>
+                          <td className="px-6 py-4">
+                            {isHiddenSample(obs) ? '?' : formatConcentration(obs.concInBath, concentrationUnit, findAgonist(obs.agonistId).molecularWeight)}
+                            {obs.secondAgonistId && !!obs.combinationRatio && ` + ${formatConcentration(obs.concInBath * obs.combinationRatio, concentrationUnit, findAgonist(obs.secondAgonistId).molecularWeight)}`}
+                            {obs.toxicity?.map((event, j) => <span key={j} className="block text-xs text-red-600">{describeToxicEvent(event)}</span>)}
+                          </td>
+                          <td className="px-6 py-4">
+                            {[
+                              findAntagonist(obs.antagonistId) ? `${findAntagonist(obs.antagonistId)!.shortName} ${obs.antagonistConcentration}` : null,
+                              findAnticholinesterase(obs.anticholinesteraseId)?.shortName,
+                            ].filter(Boolean).join(' + ') || '—'}
+                          </td>
                           <td className="px-6 py-3">
-                            {obs.isSample ? (
-                              <div className="font-medium text-purple-600 px-3 py-1.5">
-                                {obs.response}
-                              </div>
-                            ) : (
-                              <input
-                                type="number"
-                                step="0.1"
-                                value={obs.response}
-                                onChange={e => updateObservationResponse(i, e.target.value)}
-                                className="w-24 px-3 py-1.5 border rounded focus:outline-none focus:border-blue-400"
-                              />
-                            )}
+                            <input
+                              type="number"
+                              step="0.1"
+                              value={obs.response}
+                              onChange={e => updateObservationResponse(i, e.target.value)}
+                              className="w-24 px-3 py-1.5 border rounded focus:outline-none focus:border-blue-400"
+                            />
                           </td>
                           <td className={`px-6 py-4 font-medium ${obs.isSample ? 'text-purple-600' : 'text-emerald-600'}`}>
                             {obs.percentResponse || '—'}%
@@ -1290,12 +2693,186 @@ export default function Exp1Page() {
                 </table>
               </div>
             </div>
+
+            {assayDesign && (
+              <div className="bg-white rounded-xl shadow border p-6">
+                <h2 className="text-lg font-semibold mb-1">
+                  {assayDesign === 'three-point' ? 'Three-point' : 'Four-point'} Assay — Unknown #{assayCount}
+                </h2>
+                <p className="text-sm text-slate-500 mb-4">
+                  Standard: {formatConcentration(assayStandardStock, concentrationUnit, primaryAgonist.molecularWeight, 2)} {concentrationUnit} {primaryAgonist.shortName}. Doses are given in the Latin-square order below, one block per row.
+                </p>
+                <div className="flex flex-wrap gap-6 mb-6">
+                  <table className="text-sm">
+                    <tbody>
+                      {assaySquare.map((row, block) => (
+                        <tr key={block}>
+                          <td className="pr-3 py-1 text-slate-500">Block {block + 1}</td>
+                          {row.map((doseIndex, j) => {
+                            const position = block * row.length + j
+                            return (
+                              <td
+                                key={j}
+                                className={`px-3 py-1 border text-center ${position < assayRecords.length ? 'bg-emerald-50 text-emerald-700' : position === assayRecords.length ? 'bg-purple-50 font-semibold text-purple-700' : 'text-slate-400'}`}
+                              >
+                                {assayDoses[doseIndex]}
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left font-medium text-slate-600">Dose</th>
+                        <th className="px-4 py-3 text-left font-medium text-slate-600">Volume (mL)</th>
+                        {assaySquare.map((_, block) => (
+                          <th key={block} className="px-4 py-3 text-left font-medium text-slate-600">Block {block + 1} (%)</th>
+                        ))}
+                        <th className="px-4 py-3 text-left font-medium text-slate-600">Mean (%)</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {assayDoses.map(dose => {
+                        const rows = assayRecords.filter(o => o.assayDose === dose)
+                        const recorded = rows.filter(o => o.percentResponse !== '').map(o => Number(o.percentResponse))
+                        return (
+                          <tr key={dose} className={dose.startsWith('T') ? 'bg-purple-50' : undefined}>
+                            <td className="px-4 py-3 font-medium">{dose}</td>
+                            <td className="px-4 py-3">{assayVolumes[dose]}</td>
+                            {assaySquare.map((_, block) => (
+                              <td key={block} className="px-4 py-3">{rows[block]?.percentResponse || '—'}</td>
+                            ))}
+                            <td className="px-4 py-3 font-medium">
+                              {recorded.length > 0 ? (recorded.reduce((s, v) => s + v, 0) / recorded.length).toFixed(2) : '—'}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                {assayPotency ? (
+                  <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div className="bg-slate-50 rounded-lg p-3">
+                      <div className="text-xs text-slate-500">Common slope (%/log dose)</div>
+                      <div className="font-semibold">{assayPotency.slope.toFixed(2)}</div>
+                    </div>
+                    <div className="bg-slate-50 rounded-lg p-3">
+                      <div className="text-xs text-slate-500">Log potency ratio (M)</div>
+                      <div className="font-semibold">{assayPotency.logPotencyRatio.toFixed(4)}</div>
+                    </div>
+                    <div className="bg-slate-50 rounded-lg p-3">
+                      <div className="text-xs text-slate-500">Potency ratio (T/S)</div>
+                      <div className="font-semibold">{assayPotency.potencyRatio.toFixed(3)}</div>
+                    </div>
+                    <div className="bg-purple-50 rounded-lg p-3">
+                      <div className="text-xs text-slate-500">Unknown ({concentrationUnit}, 95% fiducial limits)</div>
+                      <div className="font-semibold text-purple-700">{formatConcentration(assayPotency.testConcentration, concentrationUnit, primaryAgonist.molecularWeight, 1)}</div>
+                      <div className="text-xs text-slate-500">
+                        {assayPotency.lowerLimit !== null && assayPotency.upperLimit !== null
+                          ? `${formatConcentration(assayPotency.lowerLimit, concentrationUnit, primaryAgonist.molecularWeight, 1)} – ${formatConcentration(assayPotency.upperLimit, concentrationUnit, primaryAgonist.molecularWeight, 1)}`
+                          : 'Limits need more replicate responses'}
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="mt-6 text-sm text-slate-400">
+                    Record responses to at least the two standard doses and one test dose to calculate potency.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl shadow border p-6">
+              <h2 className="text-lg font-semibold mb-1">Bioassay of Unknown</h2>
+              <p className="text-sm text-slate-500 mb-4">
+                Record the response to the unknown (Sample Test), bracket it between a lower and a higher standard dose of {primaryAgonist.shortName},
+                then submit your estimate of the unknown stock concentration.
+              </p>
+              {unknownSample ? (
+                <div className="space-y-4">
+                  <div className="text-sm text-slate-700">
+                    Unknown #{assayCount} — assigned by {unknownSample.assignedBy === 'instructor' ? 'the instructor' : 'the app'}
+                    {unknownSample.estimate !== null && `, your estimate ${formatConcentration(unknownSample.estimate, concentrationUnit, primaryAgonist.molecularWeight, 2)} ${concentrationUnit}`}
+                  </div>
+                  {unknownSample.estimate === null ? (
+                    <div className="flex items-center gap-3">
+                      <label className="text-sm font-medium text-slate-600">Estimated stock ({concentrationUnit}):</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={assayEstimateInput}
+                        onChange={e => setAssayEstimateInput(e.target.value)}
+                        className="w-32 px-3 py-2 border rounded focus:border-blue-500"
+                      />
+                      <button
+                        onClick={submitAssayEstimate}
+                        className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+                      >
+                        Submit Estimate
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setShowAssayResult(true)}
+                      className="px-4 py-2 border border-purple-200 text-purple-700 rounded-lg hover:bg-purple-50"
+                    >
+                      View Result
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-slate-400">No unknown assigned yet. Run a Sample Test to draw one.</p>
+              )}
+              <details className="mt-4 text-sm">
+                <summary className="cursor-pointer text-slate-500">Instructor: assign the unknown</summary>
+                <div className="flex items-center gap-3 mt-3">
+                  <input
+                    type="password"
+                    inputMode="decimal"
+                    placeholder={`Stock ${concentrationUnit}`}
+                    value={instructorUnknownInput}
+                    onChange={e => setInstructorUnknownInput(e.target.value)}
+                    className="w-32 px-3 py-2 border rounded focus:border-blue-500"
+                  />
+                  <button
+                    onClick={assignInstructorUnknown}
+                    disabled={experimentRunning}
+                    className="px-4 py-2 border rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                  >
+                    Assign
+                  </button>
+                </div>
+              </details>
+            </div>
           </div>
         )}
 
         {/* GRAPHS TAB */}
         {activeTab === 'graphs' && (
           <div className="space-y-10">
+            <div className="flex justify-end items-center gap-6">
+              {channels.length > 1 && (
+                <label className="flex items-center gap-2 text-sm font-medium text-slate-600">
+                  Channel:
+                  <select
+                    value={analysedChannel?.id}
+                    onChange={e => setAnalysedChannelId(e.target.value)}
+                    className="border rounded-lg px-2 py-1.5"
+                  >
+                    {channels.map(channel => (
+                      <option key={channel.id} value={channel.id}>{channel.name} ({channel.role})</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {unitSelector}
+            </div>
 
             {/* Graph 1: Dose vs % Response */}
             <div className="bg-white rounded-xl shadow border p-8">
@@ -1329,6 +2906,149 @@ export default function Exp1Page() {
               </div>
             </div>
 
+            {/* Control vs Antagonist curves */}
+            <div className="bg-white rounded-xl shadow border p-8">
+              <h2 className="text-xl font-semibold mb-2">Control vs Antagonist — Surmountable and Insurmountable Block</h2>
+              <p className="text-sm text-slate-500 mb-6">
+                A competitive antagonist shifts the curve to the right with the same maximum; a non-competitive
+                antagonist depresses the maximal response, which higher agonist doses cannot restore.
+              </p>
+              {treatmentGroups.length === 0 ? (
+                <div className="py-12 text-center text-slate-400">No responses recorded yet</div>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-3 mb-6 text-sm">
+                    {treatmentGroups.map(group => (
+                      <div key={group.key} className="rounded-lg border bg-slate-50 px-4 py-2">
+                        <span className="font-medium text-slate-700">{describeTreatment(group)}</span>
+                        <span className="ml-2 text-slate-500">
+                          max {Math.max(...group.records.map(o => o.percentResponse)).toFixed(1)}%
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="h-96">
+                    <Line data={treatmentData} options={treatmentChartOptions} />
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Anticholinesterase potentiation */}
+            <div className="bg-white rounded-xl shadow border p-8">
+              <h2 className="text-xl font-semibold mb-2">Anticholinesterase Potentiation</h2>
+              <p className="text-sm text-slate-500 mb-6">
+                Physostigmine and neostigmine stop acetylcholine being hydrolysed in the bath, shifting its curve to the left
+                and slowing relaxation after wash. Fold shift = control EC50 / potentiated EC50.
+              </p>
+              {potentiationGroups.every(g => !g.anticholinesteraseId) ? (
+                <div className="py-12 text-center text-slate-400">
+                  Record acetylcholine responses with and without an anticholinesterase pretreatment to compare the curves
+                </div>
+              ) : (
+                <>
+                  {potentiationResults.length > 0 && (
+                    <div className="grid sm:grid-cols-2 gap-4 mb-6">
+                      {potentiationResults.map(result => (
+                        <div key={result.anticholinesteraseId} className="rounded-lg border bg-slate-50 px-4 py-3 text-sm">
+                          <div className="font-medium text-slate-700">{findAnticholinesterase(result.anticholinesteraseId)?.name}</div>
+                          <div className="text-slate-600">
+                            Fold shift = {result.foldShift.toFixed(2)}×
+                            <span className="ml-2 text-slate-400">
+                              EC50 {formatConcentration(result.controlEC50, concentrationUnit, findAgonist(DEFAULT_AGONIST_ID).molecularWeight)} → {formatConcentration(result.potentiatedEC50, concentrationUnit, findAgonist(DEFAULT_AGONIST_ID).molecularWeight)} {concentrationUnit}
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="h-96">
+                    <Line data={potentiationData} options={potentiationChartOptions} />
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Isobologram: drug combinations */}
+            <div className="bg-white rounded-xl shadow border p-8">
+              <div className="flex items-start justify-between gap-4 mb-2">
+                <h2 className="text-xl font-semibold">Drug Combination — Isobologram</h2>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  Effect level
+                  <select
+                    value={isoboleEffect}
+                    onChange={e => setIsoboleEffect(Number(e.target.value))}
+                    className="border rounded-lg px-2 py-1"
+                  >
+                    {[20, 30, 40, 50].map(v => <option key={v} value={v}>{v}%</option>)}
+                  </select>
+                </label>
+              </div>
+              <p className="text-sm text-slate-500 mb-6">
+                Each combination point is the pair of bath concentrations that together give the chosen response.
+                Points on the dashed line are additive, below it synergistic, above it antagonistic.
+                Combination index = a/A + b/B.
+              </p>
+              {isobologramResults.length === 0 ? (
+                <div className="py-12 text-center text-slate-400">
+                  Record each agonist alone and at least one fixed-ratio combination, spanning the chosen effect level, to build the isobologram
+                </div>
+              ) : (
+                <>
+                  <div className="grid sm:grid-cols-2 gap-4 mb-6">
+                    {isobologramResults.flatMap(result => result.points.map(point => (
+                      <div key={`${result.agonistId}-${point.combinationRatio}-${point.interaction}`} className="rounded-lg border bg-slate-50 px-4 py-3 text-sm">
+                        <div className="font-medium text-slate-700">
+                          {findAgonist(result.agonistId).shortName} + {findAgonist(result.secondAgonistId).shortName} 1 : {point.combinationRatio}
+                          <span className="ml-2 capitalize" style={{ color: interactionColors[point.interaction] }}>{point.interaction}</span>
+                        </div>
+                        <div className="text-slate-600">
+                          Combination index = {point.combinationIndex.toFixed(2)}
+                          <span className="ml-2 text-slate-400">
+                            {point.combinationIndex < 0.9 ? 'synergy' : point.combinationIndex > 1.1 ? 'antagonism' : 'additive'}
+                          </span>
+                        </div>
+                      </div>
+                    )))}
+                  </div>
+                  <div className="h-96">
+                    <Line data={isobologramData} options={isobologramChartOptions} />
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Schild Plot: competitive antagonism */}
+            <div className="bg-white rounded-xl shadow border p-8">
+              <h2 className="text-xl font-semibold mb-2">Schild Plot — pA2 Determination</h2>
+              <p className="text-sm text-slate-500 mb-6">
+                Dose ratios are taken from the EC50 of each antagonist concentration relative to the control curve
+                (at least two responses between 10% and 90% per curve). pA2 is the x-intercept of the regression, negated.
+              </p>
+              {schildResults.length === 0 ? (
+                <div className="py-12 text-center text-slate-400">
+                  Record a control curve and at least one curve in the presence of an antagonist to build the Schild plot
+                </div>
+              ) : (
+                <>
+                  <div className="grid sm:grid-cols-2 gap-4 mb-6">
+                    {schildResults.map(result => (
+                      <div key={result.antagonistId} className="rounded-lg border bg-slate-50 px-4 py-3 text-sm">
+                        <div className="font-medium text-slate-700">{findAntagonist(result.antagonistId)?.name}</div>
+                        <div className="text-slate-600">
+                          pA2 = {result.pA2 !== null ? result.pA2.toFixed(2) : '—'},
+                          slope = {result.slope !== null ? result.slope.toFixed(2) : '— (single concentration, unit slope assumed)'}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="h-96">
+                    <Line data={schildData} options={schildChartOptions} />
+                  </div>
+                </>
+              )}
+            </div>
+
           </div>
         )}
 
@@ -1357,7 +3077,7 @@ export default function Exp1Page() {
             {theorySubTab === 'introduction' && (
               <div className="prose max-w-none">
                 <h2>Introduction</h2>
-                <p>The experiment demonstrates the dose-response relationship of acetylcholine (ACh) on the frog rectus abdominis muscle. ACh binds to nicotinic receptors, causing muscle contraction. The response is recorded on a kymograph, showing increasing contraction with higher doses until a maximum is reached. This curve is used to determine potency (EC50) and efficacy.</p>
+                <p>{preparation.theory.introduction}</p>
               </div>
             )}
 
@@ -1365,13 +3085,16 @@ export default function Exp1Page() {
               <div className="prose max-w-none">
                 <h2>Procedure</h2>
                 <ol>
-                  <li>Dissect the frog and isolate the rectus abdominis muscle.</li>
-                  <li>Mount the muscle in an organ bath containing aerated frog Ringer&apos;s solution at room temperature.</li>
+                  {preparation.theory.mounting.map(step => <li key={step}>{step}</li>)}
                   <li>Attach the muscle to an isotonic lever connected to a kymograph drum.</li>
                   <li>Record a baseline contraction.</li>
-                  <li>Add increasing concentrations of ACh (e.g., 0.05 to 0.8 µg/mL) to the bath.</li>
-                  <li>Record the contraction height for each dose.</li>
-                  <li>Wash the bath with fresh Ringer&apos;s solution between doses to return to baseline.</li>
+                  <li>Add increasing concentrations of {primaryAgonist.shortName} (e.g., {preparation.theory.doseRange}) to the bath.</li>
+                  <li>Leave each dose in contact with the tissue for a fixed contact time (e.g. 30 s) so the contraction reaches its plateau, then record the contraction height.</li>
+                  <li>Wash the bath with fresh {findSolution(preparation.solutionId).name} solution between doses to return to baseline.</li>
+                  <li>For a drug combination, give two agonists together at a fixed ratio, find the concentrations producing a chosen response and compare them with each drug alone on an isobologram.</li>
+                  <li>To demonstrate potentiation, pretreat the tissue with physostigmine or neostigmine and repeat the acetylcholine doses.</li>
+                  <li>Alternatively, in the cumulative (van Rossum) protocol, add each dose on top of the previous one once the response has plateaued, and wash only at the end of the series.</li>
+                  <li>To assay an unknown, bracket its response between two standard doses, or run a three-point / four-point assay giving the standard and test doses in a Latin-square order and calculate the potency with its fiducial limits.</li>
                   <li>Calculate % response relative to the maximum contraction.</li>
                   <li>Plot dose-response and log-dose-response curves.</li>
                 </ol>
@@ -1382,13 +3105,12 @@ export default function Exp1Page() {
               <div className="prose max-w-none">
                 <h2>Precautions</h2>
                 <ul>
-                  <li>Use fresh frog preparation to avoid fatigue.</li>
-                  <li>Maintain constant temperature (25-30°C) and aeration.</li>
+                  {preparation.theory.precautions.map(precaution => <li key={precaution}>{precaution}</li>)}
                   <li>Ensure the lever is friction-free and properly balanced.</li>
-                  <li>Wash thoroughly between doses to prevent cumulative effects.</li>
+                  <li>Wash thoroughly between doses to prevent cumulative effects, and allow the tissue to rest before the next dose to avoid tachyphylaxis.</li>
                   <li>Calibrate the kymograph drum speed.</li>
                   <li>Avoid air bubbles in the organ bath.</li>
-                  <li>Handle acetylcholine solutions carefully as they are unstable.</li>
+                  <li>Handle acetylcholine solutions carefully as they are unstable: keep them on ice and make up fresh stock when responses start to fall.</li>
                   <li>Follow ethical guidelines for animal use.</li>
                 </ul>
               </div>
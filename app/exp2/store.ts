@@ -1,6 +1,21 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { INITIAL_DATA, ImageData } from './data'
+import { ExposureHistory, InteractionModel, StockStorage, rebaseStockPreparedAt } from '../lib/pharmacology'
+import { DEFAULT_VARIABILITY, VariabilityConfig, createSeed } from '../lib/variability'
+import { DEFAULT_CONTACT_TIME, DEFAULT_DRUM_SPEED, SIMULATION_MS_PER_SECOND, simulatedMinutes } from '../lib/kinetics'
+import { LabClock, advanceClock, clockTime, createClock, updateClock } from '../lib/clock'
+import { DEFAULT_MAGNIFICATION } from '../lib/lever'
+import { DEFAULT_PREPARATION_ID, findPreparation } from '../lib/preparations'
+import { BathConditions, defaultBathConditions } from '../lib/bath'
+import { EQUILIBRATION_MINUTES } from '../lib/fatigue'
+import { NO_RHYTHM, SpontaneousRhythm } from '../lib/rhythm'
+import { TissueDamage, ToxicEvent } from '../lib/toxicity'
+import { AreaTrace, RecordingEvent } from '../lib/trace'
+import { ChannelTissue, FRESH_TISSUE, RecordingChannel, channelFullScale, channelLayout, layoutChannels } from '../lib/channels'
+import { ForceSample, RecordingMode, TransducerCalibration } from '../lib/transducer'
+import { ConcentrationUnit } from '../lib/units'
+import { AssayDesign, AssayDoseLabel, DEFAULT_ASSAY_VOLUMES, UnknownSample } from '../lib/bioassay'
 
 export type { ImageData, SubImage, DrawableArea } from './data'
 
@@ -12,6 +27,23 @@ export interface ObservationRecord {
     response: string
     percentResponse: string
     isSample?: boolean
+    // Which unknown a sample row belongs to (1-based)
+    assayNumber?: number
+    // Position in a 3-point / 4-point assay (standard or test dose)
+    assayDose?: AssayDoseLabel
+    agonistId?: string
+    antagonistId?: string | null
+    antagonistConcentration?: number
+    anticholinesteraseId?: string | null
+    // Second agonist of a combination; its bath concentration is concInBath × combinationRatio
+    secondAgonistId?: string | null
+    combinationRatio?: number
+    interaction?: InteractionModel
+    // Overdose: contracture on this dose and damage from leaving it in the bath
+    toxicity?: ToxicEvent[]
+    // Channel the response was read from; rows recorded before there were
+    // channels came from the first
+    channelId?: string
 }
 
 interface ExperimentState {
@@ -21,18 +53,94 @@ interface ExperimentState {
     experimentRunning: boolean
     selectedBaseline: number
     selectedConcentration: number
-    currentLeverRotation: number
+    contactTime: number
+    // Drum speed (mm/s); the drum turns whenever the lab clock runs
+    drumSpeed: number
+    // Pen arm : load arm ratio of the writing levers (see lib/lever)
+    magnification: number
+    // Lab clock that every time in the simulation is read off (see lib/clock)
+    clock: LabClock
+    // Levers recording in parallel, each on its own tissue
+    channels: RecordingChannel[]
     observations: ObservationRecord[]
     autoScroll: boolean
+    // Unit agonist concentrations are shown in on the Observation and Graphs tabs
+    concentrationUnit: ConcentrationUnit
     currentGraphX: number
     maxResponse: number
-    canvasData: Record<string, string>
+    // Kymograph trace of each drawable area, as pen samples and labels
+    traces: Record<string, AreaTrace>
+    // Doses and washes in order, with their notches on the event marker
+    events: RecordingEvent[]
     canvasWidths: Record<string, number>
 
+    // Isotonic lever on the kymograph, or isometric transducer on a physiograph
+    // whose trace is kept as samples (mV) until a calibration converts it to grams
+    recordingMode: RecordingMode
+    forceTrace: ForceSample[]
+    calibration: TransducerCalibration | null
+
     // New Flow States
     flowStep: 'BASELINE' | 'INJECTION' | 'WASH'
     isAutoSample: boolean
 
+    // Tissue preparation mounted in the bath
+    preparationId: string
+    selectedAgonist: string
+
+    // Dosing protocol: 'single' washes between doses, 'cumulative' (van Rossum)
+    // adds each dose on top of the agonist already in the bath (µg/mL)
+    protocol: 'single' | 'cumulative'
+    bathConcentration: number
+
+    // Each channel's own tissue by channel id: exposure and wash timing used to
+    // model tachyphylaxis, the contractions it has made (fatigue) and the
+    // responsiveness lost to overdoses (see lib/channels)
+    tissues: Record<string, ChannelTissue>
+
+    // When the agonist stock solutions were made up (ms) and how they are kept
+    stockPreparedAt: number
+    stockStorage: StockStorage
+
+    // Bath temperature, aeration, Ca²⁺ and solution; while aeration is off the
+    // tissue builds an oxygen debt (simulated minutes, see elapsedHypoxicMinutes)
+    bathConditions: BathConditions
+    hypoxicMinutes: number
+    unaeratedSince: number | null
+
+    // When the tissue was mounted (ms; baseline drift runs from here)
+    mountedAt: number
+
+    // Seed for this tissue preparation's variability; a new one is drawn on reset
+    seed: number
+    variability: VariabilityConfig
+
+    // Antagonist pre-incubated in the bath (concentration in µM)
+    selectedAntagonist: string | null
+    antagonistConcentration: number
+
+    // Spontaneous rhythm of the tissue and a drug kept in the bath that modulates
+    // it (adrenaline, concentration in µg/mL)
+    rhythm: SpontaneousRhythm
+    selectedRhythmModulator: string | null
+    rhythmModulatorConcentration: number
+
+    // Anticholinesterase pretreatment (physostigmine / neostigmine)
+    selectedAnticholinesterase: string | null
+
+    // Drug combination: second agonist given with the first at a fixed bath ratio
+    selectedSecondAgonist: string | null
+    combinationRatio: number
+    interactionModel: InteractionModel
+
+    // Bioassay: hidden unknown sample the student brackets against standards
+    unknownSample: UnknownSample | null
+    assayCount: number
+
+    // Graded-dose assay of the unknown against the standard (null = off)
+    assayDesign: AssayDesign | null
+    assayVolumes: Record<AssayDoseLabel, number>
+
     // Actions
     setActiveTab: (tab: 'theory' | 'setup' | 'observation' | 'graphs') => void
     setTheorySubTab: (tab: 'introduction' | 'procedure' | 'precautions') => void
@@ -40,20 +148,58 @@ interface ExperimentState {
     setExperimentRunning: (running: boolean) => void
     setSelectedBaseline: (baseline: number) => void
     setSelectedConcentration: (concentration: number) => void
-    setCurrentLeverRotation: (rotation: number) => void
+    setContactTime: (seconds: number) => void
+    setDrumSpeed: (speed: number) => void
+    setMagnification: (magnification: number) => void
+    setClock: (clock: LabClock | ((prev: LabClock) => LabClock)) => void
+    setChannels: (channels: RecordingChannel[]) => void
     setObservations: (observations: ObservationRecord[] | ((prev: ObservationRecord[]) => ObservationRecord[])) => void
     setAutoScroll: (autoScroll: boolean) => void
+    setConcentrationUnit: (unit: ConcentrationUnit) => void
     setCurrentGraphX: (x: number) => void
     setMaxResponse: (max: number) => void
-    setCanvasData: (data: Record<string, string> | ((prev: Record<string, string>) => Record<string, string>)) => void
+    setTraces: (traces: Record<string, AreaTrace> | ((prev: Record<string, AreaTrace>) => Record<string, AreaTrace>)) => void
+    setEvents: (events: RecordingEvent[] | ((prev: RecordingEvent[]) => RecordingEvent[])) => void
     setCanvasWidths: (widths: Record<string, number> | ((prev: Record<string, number>) => Record<string, number>)) => void
+    setRecordingMode: (mode: RecordingMode) => void
+    setForceTrace: (trace: ForceSample[] | ((prev: ForceSample[]) => ForceSample[])) => void
+    setCalibration: (calibration: TransducerCalibration | null) => void
     resetExperiment: () => void
 
     // New Actions
     setFlowStep: (step: 'BASELINE' | 'INJECTION' | 'WASH') => void
     setIsAutoSample: (isAuto: boolean) => void
+    setPreparation: (preparationId: string) => void
+    setSelectedAgonist: (agonist: string) => void
+    setProtocol: (protocol: 'single' | 'cumulative') => void
+    setBathConcentration: (concentration: number) => void
+    setTissues: (tissues: Record<string, ChannelTissue> | ((prev: Record<string, ChannelTissue>) => Record<string, ChannelTissue>)) => void
+    setSeed: (seed: number) => void
+    setStockStorage: (storage: StockStorage) => void
+    prepareFreshStock: () => void
+    setBathConditions: (conditions: BathConditions) => void
+    mountFreshPreparation: () => void
+    setVariability: (config: VariabilityConfig) => void
+    setSelectedAntagonist: (antagonist: string | null) => void
+    setAntagonistConcentration: (concentration: number) => void
+    setRhythm: (rhythm: SpontaneousRhythm) => void
+    setSelectedRhythmModulator: (modulator: string | null) => void
+    setRhythmModulatorConcentration: (concentration: number) => void
+    setSelectedAnticholinesterase: (anticholinesterase: string | null) => void
+    setSelectedSecondAgonist: (agonist: string | null) => void
+    setCombinationRatio: (ratio: number) => void
+    setInteractionModel: (model: InteractionModel) => void
+    setUnknownSample: (sample: UnknownSample | null) => void
+    setAssayCount: (count: number) => void
+    setAssayDesign: (design: AssayDesign | null) => void
+    setAssayVolumes: (volumes: Record<AssayDoseLabel, number>) => void
 }
 
+// An isotonic response is read in mm of pen rise, as a percentage of a
+// full-scale contraction on the first channel's paper at the magnification
+const isotonicMaxResponse = (imageData: ImageData, channels: RecordingChannel[], magnification: number) =>
+    Number((channelFullScale(imageData, channels[0], magnification)?.mm ?? 100).toFixed(1))
+
 export const useExperimentStore = create<ExperimentState>()(
     persist(
         (set) => ({
@@ -63,18 +209,55 @@ export const useExperimentStore = create<ExperimentState>()(
             experimentRunning: false,
             selectedBaseline: 20,
             selectedConcentration: 0.05,
-            currentLeverRotation: 0,
+            contactTime: DEFAULT_CONTACT_TIME,
+            drumSpeed: DEFAULT_DRUM_SPEED,
+            magnification: DEFAULT_MAGNIFICATION,
+            clock: createClock(),
+            channels: layoutChannels(INITIAL_DATA),
             observations: [],
             autoScroll: true,
+            // PD2 is read off a molar axis
+            concentrationUnit: 'M',
             currentGraphX: 0,
-            maxResponse: 100,
-            canvasData: {},
+            maxResponse: isotonicMaxResponse(INITIAL_DATA, layoutChannels(INITIAL_DATA), DEFAULT_MAGNIFICATION),
+            traces: {},
+            events: [],
             canvasWidths: {},
+            recordingMode: 'isotonic',
+            forceTrace: [],
+            calibration: null,
 
             // Initial Flow State
             flowStep: 'BASELINE',
             isAutoSample: false,
 
+            preparationId: DEFAULT_PREPARATION_ID,
+            selectedAgonist: 'acetylcholine',
+            protocol: 'single',
+            bathConcentration: 0,
+            tissues: {},
+            stockPreparedAt: Date.now(),
+            stockStorage: 'ice',
+            bathConditions: defaultBathConditions(findPreparation(DEFAULT_PREPARATION_ID)),
+            hypoxicMinutes: 0,
+            unaeratedSince: null,
+            mountedAt: Date.now(),
+            seed: createSeed(),
+            variability: DEFAULT_VARIABILITY,
+            selectedAntagonist: null,
+            antagonistConcentration: 1,
+            rhythm: findPreparation(DEFAULT_PREPARATION_ID).rhythm ?? NO_RHYTHM,
+            selectedRhythmModulator: null,
+            rhythmModulatorConcentration: 0.01,
+            selectedAnticholinesterase: null,
+            selectedSecondAgonist: null,
+            combinationRatio: 1,
+            interactionModel: 'additive',
+            unknownSample: null,
+            assayCount: 0,
+            assayDesign: null,
+            assayVolumes: DEFAULT_ASSAY_VOLUMES,
+
             setActiveTab: (activeTab) => set({ activeTab }),
             setTheorySubTab: (theorySubTab) => set({ theorySubTab }),
             setImageData: (updater) => set((state) => ({
@@ -83,34 +266,199 @@ export const useExperimentStore = create<ExperimentState>()(
             setExperimentRunning: (experimentRunning) => set({ experimentRunning }),
             setSelectedBaseline: (selectedBaseline) => set({ selectedBaseline }),
             setSelectedConcentration: (selectedConcentration) => set({ selectedConcentration }),
-            setCurrentLeverRotation: (currentLeverRotation) => set({ currentLeverRotation }),
+            setContactTime: (contactTime) => set({ contactTime }),
+            setDrumSpeed: (drumSpeed) => set({ drumSpeed }),
+            setMagnification: (magnification) => set((state) => ({
+                magnification,
+                maxResponse: state.recordingMode === 'isometric' ? state.maxResponse : isotonicMaxResponse(state.imageData, state.channels, magnification)
+            })),
+            setClock: (updater) => set((state) => ({
+                clock: typeof updater === 'function' ? updater(state.clock) : updater
+            })),
+            // A removed channel's tissue goes with it
+            setChannels: (channels) => set((state) => ({
+                channels,
+                tissues: Object.fromEntries(Object.entries(state.tissues).filter(([id]) => channels.some(c => c.id === id)))
+            })),
             setObservations: (updater) => set((state) => ({
                 observations: typeof updater === 'function' ? updater(state.observations) : updater
             })),
             setAutoScroll: (autoScroll) => set({ autoScroll }),
+            setConcentrationUnit: (concentrationUnit) => set({ concentrationUnit }),
             setCurrentGraphX: (currentGraphX) => set({ currentGraphX }),
             setMaxResponse: (maxResponse) => set({ maxResponse }),
-            setCanvasData: (updater) => set((state) => ({
-                canvasData: typeof updater === 'function' ? updater(state.canvasData) : updater
+            setTraces: (updater) => set((state) => ({
+                traces: typeof updater === 'function' ? updater(state.traces) : updater
+            })),
+            setEvents: (updater) => set((state) => ({
+                events: typeof updater === 'function' ? updater(state.events) : updater
             })),
             setCanvasWidths: (updater) => set((state) => ({
                 canvasWidths: typeof updater === 'function' ? updater(state.canvasWidths) : updater
             })),
-            resetExperiment: () => set({
-                currentLeverRotation: 0,
+            // Responses are read in mm off the lever, or in g off the transducer
+            setRecordingMode: (recordingMode) => set((state) => ({
+                recordingMode,
+                maxResponse: recordingMode === 'isometric' ? findPreparation(state.preparationId).maxForce : isotonicMaxResponse(state.imageData, state.channels, state.magnification)
+            })),
+            setForceTrace: (updater) => set((state) => ({
+                forceTrace: typeof updater === 'function' ? updater(state.forceTrace) : updater
+            })),
+            setCalibration: (calibration) => set({ calibration }),
+            resetExperiment: () => set((state) => ({
                 currentGraphX: 0,
                 observations: [],
-                canvasData: {},
+                traces: {},
+                events: [],
                 canvasWidths: {},
+                // The drum stops; the recording restarts on fresh paper
+                clock: updateClock(state.clock, { running: false }),
+                forceTrace: [],
+                calibration: null,
                 experimentRunning: false,
                 flowStep: 'BASELINE',
-                isAutoSample: false
-            }),
+                isAutoSample: false,
+                bathConcentration: 0,
+                tissues: {},
+                stockPreparedAt: clockTime(state.clock),
+                seed: createSeed(),
+                unknownSample: null,
+                assayCount: 0,
+                hypoxicMinutes: 0,
+                unaeratedSince: state.bathConditions.aerated ? null : clockTime(state.clock),
+                mountedAt: clockTime(state.clock)
+            })),
             setFlowStep: (flowStep) => set({ flowStep }),
-            setIsAutoSample: (isAutoSample) => set({ isAutoSample })
+            setIsAutoSample: (isAutoSample) => set({ isAutoSample }),
+            // A new preparation starts from its own agonist, stock and a drug-free,
+            // aerated bath under its standard conditions
+            setPreparation: (preparationId) => {
+                const preparation = findPreparation(preparationId)
+                set((state) => ({
+                    preparationId: preparation.id,
+                    selectedAgonist: preparation.primaryAgonistId,
+                    selectedSecondAgonist: null,
+                    selectedAntagonist: null,
+                    rhythm: preparation.rhythm ?? NO_RHYTHM,
+                    selectedRhythmModulator: null,
+                    selectedBaseline: preparation.stockConcentrations[0],
+                    unknownSample: null,
+                    bathConditions: defaultBathConditions(preparation),
+                    hypoxicMinutes: 0,
+                    unaeratedSince: null,
+                    maxResponse: state.recordingMode === 'isometric' ? preparation.maxForce : state.maxResponse,
+                }))
+            },
+            setSelectedAgonist: (selectedAgonist) => set({ selectedAgonist }),
+            setProtocol: (protocol) => set({ protocol }),
+            setBathConcentration: (bathConcentration) => set({ bathConcentration }),
+            setTissues: (updater) => set((state) => ({
+                tissues: typeof updater === 'function' ? updater(state.tissues) : updater
+            })),
+            setSeed: (seed) => set({ seed }),
+            setStockStorage: (stockStorage) => set((state) => ({
+                stockStorage,
+                stockPreparedAt: rebaseStockPreparedAt(state.stockPreparedAt, state.stockStorage, stockStorage, clockTime(state.clock))
+            })),
+            prepareFreshStock: () => set((state) => ({ stockPreparedAt: clockTime(state.clock) })),
+            // Switching aeration back on closes the current hypoxic spell
+            setBathConditions: (bathConditions) => set((state) => {
+                if (bathConditions.aerated === state.bathConditions.aerated) return { bathConditions }
+                const now = clockTime(state.clock)
+                return bathConditions.aerated
+                    ? { bathConditions, unaeratedSince: null, hypoxicMinutes: state.hypoxicMinutes + simulatedMinutes(state.unaeratedSince ?? now, now) }
+                    : { bathConditions, unaeratedSince: now }
+            }),
+            // A new piece of tissue starts free of fatigue, drift, oxygen debt,
+            // overdose damage and desensitization. It has to equilibrate first:
+            // the drum stops and the lab clock runs on, so the stocks age and
+            // the new tissue's own drift and oxygen debt start to build.
+            mountFreshPreparation: () => set((state) => {
+                const now = clockTime(state.clock)
+                return {
+                    clock: advanceClock(updateClock(state.clock, { running: false }), EQUILIBRATION_MINUTES * 60 * SIMULATION_MS_PER_SECOND),
+                    tissues: {},
+                    mountedAt: now,
+                    hypoxicMinutes: 0,
+                    unaeratedSince: state.bathConditions.aerated ? null : now,
+                    bathConcentration: 0,
+                    flowStep: 'BASELINE'
+                }
+            }),
+            setVariability: (variability) => set({ variability }),
+            setSelectedAntagonist: (selectedAntagonist) => set({ selectedAntagonist }),
+            setAntagonistConcentration: (antagonistConcentration) => set({ antagonistConcentration }),
+            setRhythm: (rhythm) => set({ rhythm }),
+            setSelectedRhythmModulator: (selectedRhythmModulator) => set({ selectedRhythmModulator }),
+            setRhythmModulatorConcentration: (rhythmModulatorConcentration) => set({ rhythmModulatorConcentration }),
+            setSelectedAnticholinesterase: (selectedAnticholinesterase) => set({ selectedAnticholinesterase }),
+            setSelectedSecondAgonist: (selectedSecondAgonist) => set({ selectedSecondAgonist }),
+            setCombinationRatio: (combinationRatio) => set({ combinationRatio }),
+            setInteractionModel: (interactionModel) => set({ interactionModel }),
+            setUnknownSample: (unknownSample) => set({ unknownSample }),
+            setAssayCount: (assayCount) => set({ assayCount }),
+            setAssayDesign: (assayDesign) => set({ assayDesign }),
+            setAssayVolumes: (assayVolumes) => set({ assayVolumes })
         }),
         {
             name: 'experiment-2-storage',
+            // Version 0 kept the kymograph as PNG data URLs, which are dropped;
+            // version 1 traces had no time marks; up to version 2 drum time was
+            // counted separately rather than read off the lab clock; version 3
+            // had a single lever and linked each event to one observation row;
+            // version 4 stored the layout and the lever positions; up to version 5
+            // an isotonic response was read against 100 mm whatever the lever;
+            // up to version 6 the channels shared one tissue's history
+            version: 7,
+            migrate: (persisted, version) => {
+                const state = { ...(persisted as Record<string, unknown>) }
+                delete state.canvasData
+                delete state.drumSeconds
+                delete state.currentLeverRotation
+                delete state.leverRotations
+                if (version === 4) {
+                    // Added channels are kept as their offset below the first
+                    const channels = (state.channels ?? []) as RecordingChannel[]
+                    const areas = ((state.imageData ?? {}) as Partial<ImageData>).drawableAreas ?? []
+                    const firstY = areas.find(a => a.id === channels[0]?.areaId)?.y ?? 0
+                    state.channels = channels.map(c => c.added ? { ...c, offset: (areas.find(a => a.id === c.areaId)?.y ?? firstY) - firstY } : c)
+                }
+                delete state.imageData
+                if (version < 7) {
+                    // Every channel carries on from the history they shared
+                    const shared = { ...FRESH_TISSUE }
+                    if (state.exposureHistory) shared.exposureHistory = state.exposureHistory as ExposureHistory
+                    if (typeof state.contractionCount === 'number') shared.contractionCount = state.contractionCount
+                    if (state.tissueDamage) shared.tissueDamage = state.tissueDamage as TissueDamage
+                    state.tissues = Object.fromEntries(((state.channels ?? []) as RecordingChannel[]).map(c => [c.id, shared]))
+                    delete state.exposureHistory
+                    delete state.contractionCount
+                    delete state.tissueDamage
+                }
+                if (version < 6 && state.recordingMode !== 'isometric') delete state.maxResponse
+                if (version < 4) {
+                    const events = (state.events ?? []) as (RecordingEvent & { sNo?: number })[]
+                    state.events = events.map(({ sNo, ...event }) => (sNo === undefined ? event : { ...event, sNos: [sNo] }))
+                }
+                if (version === 1) {
+                    const traces = (state.traces ?? {}) as Record<string, AreaTrace>
+                    state.traces = Object.fromEntries(Object.entries(traces).map(([id, trace]) => [id, { ...trace, marks: [] }]))
+                }
+                return state as unknown as ExperimentState
+            },
+            // The apparatus image holds its pictures as data URLs, far too much
+            // to store on every change; the layout is rebuilt from the channels
+            partialize: (state) => {
+                const stored: Partial<ExperimentState> = { ...state }
+                delete stored.imageData
+                return stored
+            },
+            merge: (persisted, current) => {
+                const stored = (persisted ?? {}) as Partial<ExperimentState>
+                const state = { ...current, ...stored }
+                const imageData = channelLayout(current.imageData, state.channels)
+                return { ...state, imageData, maxResponse: stored.maxResponse ?? isotonicMaxResponse(imageData, state.channels, state.magnification) }
+            },
         }
     )
 )
@@ -0,0 +1,89 @@
+// Physiological conditions in the organ bath and how far they move the tissue
+// away from its optimum. Temperatures in °C, calcium in mM.
+
+import { simulatedMinutes } from './kinetics'
+
+export interface PhysiologicalSolution {
+    id: string
+    name: string
+    // Calcium chloride content of the standard recipe, mM
+    calcium: number
+}
+
+export const SOLUTIONS: PhysiologicalSolution[] = [
+    { id: 'frog-ringer', name: 'Frog Ringer', calcium: 1.1 },
+    { id: 'tyrode', name: 'Tyrode', calcium: 1.8 },
+    { id: 'de-jalon', name: 'De Jalon', calcium: 0.5 },
+]
+
+export const findSolution = (id: string | null | undefined) =>
+    SOLUTIONS.find(s => s.id === id) ?? SOLUTIONS[0]
+
+export interface BathConditions {
+    temperature: number
+    aerated: boolean
+    calcium: number
+    solutionId: string
+}
+
+export const BATH_TEMPERATURES = [15, 20, 25, 30, 32, 37, 40]
+export const CALCIUM_CONCENTRATIONS = [0, 0.25, 0.5, 1.1, 1.8, 3.6]
+
+// Standard conditions for a preparation: its own solution, temperature and aeration
+export const defaultBathConditions = (preparation: { solutionId: string; temperature: number }): BathConditions => ({
+    temperature: preparation.temperature,
+    aerated: true,
+    calcium: findSolution(preparation.solutionId).calcium,
+    solutionId: preparation.solutionId,
+})
+
+// Width (°C) of the bell-shaped fall in contractility away from the optimum
+export const TEMPERATURE_TOLERANCE = 8
+// Contraction depends on calcium entry, half-maximal at this external Ca²⁺ (mM)
+export const CALCIUM_HALF_ACTIVATION = 0.6
+// Extra calcium cannot raise the maximum more than this over the standard recipe
+const CALCIUM_CEILING = 1.2
+// An amphibian tissue in a mammalian solution, or the reverse, works poorly
+export const WRONG_SOLUTION_EMAX = 0.7
+export const WRONG_SOLUTION_EC50 = 1.5
+// Simulated minutes without aeration for the response to fall to 1/e
+export const HYPOXIA_TIME_CONSTANT = 20
+
+export interface BathEffect {
+    // Multiplies the agonist EC50 (above 1 = less sensitive)
+    ec50Factor: number
+    // Multiplies the maximal response
+    emaxFactor: number
+    // Fraction of normal oxygenation left after time without aeration
+    oxygenation: number
+}
+
+export const NOMINAL_BATH: BathEffect = { ec50Factor: 1, emaxFactor: 1, oxygenation: 1 }
+
+// Simulated minutes the bath has gone without aeration: earlier spells plus
+// the current one, if aeration is off now
+export const elapsedHypoxicMinutes = (accumulated: number, unaeratedSince: number | null, now: number) =>
+    accumulated + (unaeratedSince === null ? 0 : simulatedMinutes(unaeratedSince, now))
+
+const calciumActivation = (calcium: number) => calcium / (calcium + CALCIUM_HALF_ACTIVATION)
+
+// Oxygen debt builds while aeration is off and is not repaid by turning it back
+// on, so a hypoxic preparation keeps its reduced responses.
+export const bathEffect = (
+    conditions: BathConditions,
+    preparation: { solutionId: string; temperature: number },
+    minutesWithoutAir = 0
+): BathEffect => {
+    const deviation = conditions.temperature - preparation.temperature
+    const temperatureFactor = Math.exp(-0.5 * (deviation / TEMPERATURE_TOLERANCE) ** 2)
+    const standardCalcium = findSolution(preparation.solutionId).calcium
+    const calciumFactor = Math.min(CALCIUM_CEILING, calciumActivation(conditions.calcium) / calciumActivation(standardCalcium))
+    const wrongSolution = conditions.solutionId !== preparation.solutionId
+    const oxygenation = Math.exp(-Math.max(0, minutesWithoutAir) / HYPOXIA_TIME_CONSTANT)
+    return {
+        // Receptor binding and transduction slow down away from the optimum
+        ec50Factor: (1 + Math.abs(deviation) / 20) * (wrongSolution ? WRONG_SOLUTION_EC50 : 1),
+        emaxFactor: temperatureFactor * calciumFactor * (wrongSolution ? WRONG_SOLUTION_EMAX : 1) * oxygenation,
+        oxygenation,
+    }
+}
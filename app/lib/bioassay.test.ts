@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { AssayResponse, bracketUnknown, latinSquare, parallelLineAssay } from './bioassay'
+
+describe('bracketUnknown', () => {
+    const standards = [{ concInBath: 0.1, percentResponse: 20 }, { concInBath: 0.4, percentResponse: 60 }]
+
+    it('interpolates the sample between its standards on the log-dose scale', () => {
+        const [bracket] = bracketUnknown(standards, [{ amountAdded: 0.5, percentResponse: 40 }], 20)
+        // Halfway between log 0.1 and log 0.4 is 0.2 µg/mL in a 20 mL bath, from 0.5 mL of stock
+        expect(bracket.lower.concInBath).toBe(0.1)
+        expect(bracket.upper.concInBath).toBe(0.4)
+        expect(bracket.estimate).toBeCloseTo(8, 10)
+    })
+
+    it('skips a sample the standards do not bracket', () => {
+        expect(bracketUnknown(standards, [{ amountAdded: 0.5, percentResponse: 75 }], 20)).toEqual([])
+    })
+})
+
+describe('latinSquare', () => {
+    const isPermutation = (items: number[], size: number) =>
+        [...items].sort((a, b) => a - b).every((item, i) => item === i) && items.length === size
+
+    it.each([3, 4])('gives every dose once in each block and each position (%i doses)', size => {
+        for (const seed of [1, 42, 123456789]) {
+            for (const index of [0, 1, 2]) {
+                const square = latinSquare(size, seed, index)
+                expect(square).toHaveLength(size)
+                square.forEach(row => expect(isPermutation(row, size)).toBe(true))
+                square[0].forEach((_, column) => expect(isPermutation(square.map(row => row[column]), size)).toBe(true))
+            }
+        }
+    })
+})
+
+describe('parallelLineAssay', () => {
+    const doses = (volumes: Record<'S1' | 'S2' | 'T1' | 'T2', number>, responses: Record<'S1' | 'S2' | 'T1' | 'T2', number[]>): AssayResponse[] =>
+        (['S1', 'S2', 'T1', 'T2'] as const).flatMap(dose => responses[dose].map(response => ({ dose, volume: volumes[dose], response })))
+    const volumes = { S1: 0.2, S2: 0.4, T1: 0.2, T2: 0.4 }
+
+    it('finds a test twice as strong as the standard with no spread about the lines', () => {
+        // Each test dose matches the standard dose of twice its volume
+        const result = parallelLineAssay(doses({ S1: 0.2, S2: 0.4, T1: 0.1, T2: 0.2 }, { S1: [30, 30], S2: [50, 50], T1: [30, 30], T2: [50, 50] }), 100)
+        expect(result?.testConcentration).toBeCloseTo(200, 8)
+        expect(result?.lowerLimit).toBeCloseTo(200, 8)
+        expect(result?.upperLimit).toBeCloseTo(200, 8)
+    })
+
+    it("gives Fieller's 95% limits for a 2+2 assay in duplicate", () => {
+        const result = parallelLineAssay(doses(volumes, { S1: [30, 34], S2: [52, 50], T1: [41, 45], T2: [62, 60] }), 100)
+        // b = (19 + 18) / (2 log 2), M = 10.5 / b, s² = 20.5 / 5, t(5) = 2.571
+        expect(result?.slope).toBeCloseTo(61.4557, 4)
+        expect(result?.logPotencyRatio).toBeCloseTo(0.170855, 6)
+        expect(result?.df).toBe(5)
+        expect(result?.residualVariance).toBeCloseTo(4.1, 10)
+        expect(result?.g).toBeCloseTo(0.039593, 6)
+        expect(result?.testConcentration).toBeCloseTo(148.202, 3)
+        expect(result?.lowerLimit).toBeCloseTo(128.017, 3)
+        expect(result?.upperLimit).toBeCloseTo(177.227, 3)
+    })
+
+    it('gives no potency without both preparations', () => {
+        expect(parallelLineAssay(doses(volumes, { S1: [30], S2: [50], T1: [], T2: [] }), 100)).toBeNull()
+    })
+})
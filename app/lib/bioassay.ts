@@ -0,0 +1,190 @@
+// Bioassay of an unknown sample by matching/bracketing against standard doses.
+// Concentrations are in µg/mL; volumes in mL.
+
+import { computeLinearFit } from './pharmacology'
+import { createRandom } from './variability'
+
+export interface UnknownSample {
+    // Hidden stock concentration of the test solution
+    concentration: number
+    assignedBy: 'app' | 'instructor'
+    // Student's estimate of the stock concentration, once submitted
+    estimate: number | null
+}
+
+export const UNKNOWN_RANGE = { min: 25, max: 300 }
+
+// Log-uniform within the range (µg/mL), to three significant figures,
+// reproducible from the session seed
+export const drawUnknownConcentration = (seed: number, index: number, range = UNKNOWN_RANGE) => {
+    const random = createRandom((seed ^ Math.imul(index + 1, 0x85ebca6b)) >>> 0)
+    const logMin = Math.log10(range.min)
+    const logMax = Math.log10(range.max)
+    return Number(Math.pow(10, logMin + (logMax - logMin) * random()).toPrecision(3))
+}
+
+export interface Bracket {
+    sampleResponse: number
+    sampleVolume: number
+    lower: { concInBath: number; percentResponse: number }
+    upper: { concInBath: number; percentResponse: number }
+    // Stock concentration implied by interpolating between the two standards
+    estimate: number
+}
+
+// For each sample response, find the standard responses just below and just
+// above it and interpolate on the log-dose scale. Samples outside the range of
+// the standards cannot be bracketed and are skipped.
+export const bracketUnknown = (
+    standards: { concInBath: number; percentResponse: number }[],
+    samples: { amountAdded: number; percentResponse: number }[],
+    bathVolume: number
+): Bracket[] => {
+    const sorted = [...standards].filter(s => s.concInBath > 0).sort((a, b) => a.percentResponse - b.percentResponse)
+    return samples.flatMap((sample): Bracket[] => {
+        if (sample.amountAdded <= 0) return []
+        const lower = [...sorted].reverse().find(s => s.percentResponse <= sample.percentResponse)
+        const upper = sorted.find(s => s.percentResponse >= sample.percentResponse)
+        if (!lower || !upper) return []
+        const fraction = upper.percentResponse === lower.percentResponse
+            ? 0.5
+            : (sample.percentResponse - lower.percentResponse) / (upper.percentResponse - lower.percentResponse)
+        const logBath = Math.log10(lower.concInBath) + fraction * (Math.log10(upper.concInBath) - Math.log10(lower.concInBath))
+        return [{
+            sampleResponse: sample.percentResponse,
+            sampleVolume: sample.amountAdded,
+            lower,
+            upper,
+            estimate: (Math.pow(10, logBath) * bathVolume) / sample.amountAdded,
+        }]
+    })
+}
+
+// Geometric mean of the bracketed estimates
+export const combineEstimates = (brackets: Bracket[]) => {
+    if (brackets.length === 0) return null
+    return Math.pow(10, brackets.reduce((s, b) => s + Math.log10(b.estimate), 0) / brackets.length)
+}
+
+export const percentError = (estimate: number, actual: number) => (100 * (estimate - actual)) / actual
+
+// Graded-dose (parallel line) assays: two standard doses against one (3-point)
+// or two (4-point, 2+2) doses of the test, each given once per block in a
+// Latin-square order so drift and sequence effects fall on every dose equally.
+
+export type AssayDesign = 'three-point' | 'four-point'
+export type AssayDoseLabel = 'S1' | 'S2' | 'T1' | 'T2'
+
+export const ASSAY_DOSES: Record<AssayDesign, AssayDoseLabel[]> = {
+    'three-point': ['S1', 'S2', 'T1'],
+    'four-point': ['S1', 'S2', 'T1', 'T2'],
+}
+
+// Volumes (mL) of standard and test; S2/S1 and T2/T1 share the same ratio
+export const DEFAULT_ASSAY_VOLUMES: Record<AssayDoseLabel, number> = { S1: 0.2, S2: 0.4, T1: 0.2, T2: 0.4 }
+
+// Cyclic Latin square with rows and dose order shuffled from the seed; `index`
+// gives each assay of a session its own square. Each row is one block and each
+// entry an index into ASSAY_DOSES[design].
+export const latinSquare = (size: number, seed: number, index = 0) => {
+    const random = createRandom((seed ^ Math.imul(index + 1, 0xc2b2ae35)) >>> 0)
+    const shuffle = (items: number[]) => {
+        const out = [...items]
+        for (let i = out.length - 1; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1))
+            ;[out[i], out[j]] = [out[j], out[i]]
+        }
+        return out
+    }
+    const indices = Array.from({ length: size }, (_, i) => i)
+    const rows = shuffle(indices)
+    const symbols = shuffle(indices)
+    return rows.map(r => indices.map(c => symbols[(r + c) % size]))
+}
+
+// Two-sided 5% points of Student's t
+const T_975 = [12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+    2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+    2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042]
+
+export const studentT975 = (df: number) => (df <= 0 ? NaN : T_975[Math.min(df, T_975.length) - 1] ?? 1.96)
+
+export interface AssayResponse {
+    dose: AssayDoseLabel
+    // Volume given, mL
+    volume: number
+    response: number
+}
+
+export interface PotencyResult {
+    // Common slope of response on log10(volume)
+    slope: number
+    // log10 of test potency relative to the standard, per mL
+    logPotencyRatio: number
+    potencyRatio: number
+    // Test stock implied by the standard stock, with 95% fiducial limits (Fieller)
+    testConcentration: number
+    lowerLimit: number | null
+    upperLimit: number | null
+    residualVariance: number
+    df: number
+    // Fieller's g; limits are unreliable once it approaches 1
+    g: number
+}
+
+// Parallel line assay. The common slope is fitted through the standard and
+// test responses, each centred on its own means, so both lines share it;
+// their horizontal separation is the log potency ratio.
+export const parallelLineAssay = (responses: AssayResponse[], standardStock: number): PotencyResult | null => {
+    const prepare = (prefix: 'S' | 'T') => {
+        const pts = responses.filter(r => r.dose.startsWith(prefix) && r.volume > 0)
+            .map(r => ({ x: Math.log10(r.volume), y: r.response }))
+        const n = pts.length
+        const meanX = n ? pts.reduce((s, p) => s + p.x, 0) / n : 0
+        const meanY = n ? pts.reduce((s, p) => s + p.y, 0) / n : 0
+        return { pts, n, meanX, meanY }
+    }
+    const standard = prepare('S')
+    const test = prepare('T')
+    if (standard.n === 0 || test.n === 0) return null
+
+    const centred = [standard, test].flatMap(prep => prep.pts.map(p => ({ x: p.x - prep.meanX, y: p.y - prep.meanY })))
+    const fit = computeLinearFit(centred)
+    if (!fit || fit.slope <= 0) return null
+    const b = fit.slope
+    const sxx = centred.reduce((s, p) => s + p.x ** 2, 0)
+
+    const residual = centred.reduce((s, p) => s + (p.y - b * p.x) ** 2, 0)
+    const df = standard.n + test.n - 3
+    const residualVariance = df > 0 ? residual / df : NaN
+
+    const offset = standard.meanX - test.meanX
+    const difference = test.meanY - standard.meanY
+    const logPotencyRatio = difference / b + offset
+
+    // Fieller's theorem for the ratio difference / b
+    let lowerLimit: number | null = null
+    let upperLimit: number | null = null
+    const t = studentT975(df)
+    const g = df > 0 ? (t * t * residualVariance) / (b * b * sxx) : NaN
+    if (df > 0 && g < 1) {
+        const half = (t * Math.sqrt(residualVariance) / b) *
+            Math.sqrt((1 - g) * (1 / standard.n + 1 / test.n) + (difference * difference) / (b * b * sxx))
+        const centre = difference / b / (1 - g)
+        lowerLimit = standardStock * Math.pow(10, offset + centre - half / (1 - g))
+        upperLimit = standardStock * Math.pow(10, offset + centre + half / (1 - g))
+    }
+
+    const potencyRatio = Math.pow(10, logPotencyRatio)
+    return {
+        slope: b,
+        logPotencyRatio,
+        potencyRatio,
+        testConcentration: standardStock * potencyRatio,
+        lowerLimit,
+        upperLimit,
+        residualVariance,
+        df,
+        g,
+    }
+}
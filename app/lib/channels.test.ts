@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { ChannelTissue, FRESH_TISSUE, RecordingChannel, channelObservations, channelSeed, channelTissue } from './channels'
+import { computeLinearFit } from './pharmacology'
+
+const channels: RecordingChannel[] = [
+    { id: 'channel-a', name: 'Channel 1', leverId: 'lever-a', areaId: 'area-a', role: 'test' },
+    { id: 'channel-b', name: 'Channel 2', leverId: 'lever-b', areaId: 'area-b', role: 'control', added: true, offset: 300 },
+]
+
+const row = (concInBath: number, response: number, channelId?: string) => ({ concInBath, response, channelId })
+const fit = (rows: ReturnType<typeof row>[]) => computeLinearFit(rows.map(r => ({ x: r.concInBath, y: r.response })))
+
+describe('channelObservations', () => {
+    const first = [row(0.1, 20, 'channel-a'), row(0.2, 38, 'channel-a'), row(0.4, 61, 'channel-a')]
+    const second = [row(0.1, 45, 'channel-b'), row(0.2, 70, 'channel-b'), row(0.4, 92, 'channel-b')]
+
+    it("leaves the first channel's fit unchanged by a second channel's rows", () => {
+        const alone = fit(channelObservations(first, channels, 'channel-a'))
+        const together = fit(channelObservations([...first, ...second], channels, 'channel-a'))
+        expect(together).toEqual(alone)
+        expect(fit([...first, ...second])).not.toEqual(alone)
+    })
+
+    it('gives rows recorded before there were channels to the first', () => {
+        const legacy = [row(0.1, 20), row(0.2, 38)]
+        expect(channelObservations([...legacy, ...second], channels, 'channel-a')).toEqual(legacy)
+        expect(channelObservations([...legacy, ...second], channels, 'channel-b')).toEqual(second)
+    })
+})
+
+describe('channelSeed', () => {
+    const third: RecordingChannel = { id: 'channel-c', name: 'Channel 3', leverId: 'lever-c', areaId: 'area-c', role: 'control', added: true, offset: 600 }
+
+    it("keeps a channel's tissue when an earlier channel is removed", () => {
+        const before = channelSeed(1234, [...channels, third], third.id)
+        expect(channelSeed(1234, [channels[0], third], third.id)).toBe(before)
+        expect(before).not.toBe(channelSeed(1234, [...channels, third], channels[1].id))
+    })
+
+    it('gives the first channel the session seed', () => {
+        expect(channelSeed(1234, channels, channels[0].id)).toBe(1234)
+    })
+})
+
+describe('channelTissue', () => {
+    it("keeps one channel's desensitization, fatigue and injury off another", () => {
+        const dosed: ChannelTissue = {
+            exposureHistory: { recentExposures: 3, lastExposureAt: 1000, lastWashAt: null },
+            contractionCount: 3,
+            tissueDamage: { reversible: 0.2, irreversible: 0.1 },
+        }
+        const tissues = { 'channel-a': dosed }
+        expect(channelTissue(tissues, 'channel-a')).toBe(dosed)
+        expect(channelTissue(tissues, 'channel-b')).toBe(FRESH_TISSUE)
+    })
+})
@@ -0,0 +1,148 @@
+// Recording channels: each lever writes the response of its own piece of
+// tissue on its own drawable area, so parallel tissues (a test and a control)
+// are recorded on the drum at once. Every tissue is given the same agonist
+// doses; a control gets none of the other drugs set up for the test.
+
+import { fullScaleRise, leverCalibration } from './lever'
+import { ExposureHistory, INITIAL_EXPOSURE_HISTORY } from './pharmacology'
+import { NO_DAMAGE, TissueDamage } from './toxicity'
+
+export type ChannelRole = 'test' | 'control'
+
+export const CHANNEL_ROLES: ChannelRole[] = ['test', 'control']
+
+export interface RecordingChannel {
+    id: string
+    name: string
+    // Sub-image of the lever and the drawable area its pen writes on
+    leverId: string
+    areaId: string
+    role: ChannelRole
+    // Added in the app as a copy of the first channel's lever and area,
+    // `offset` px lower down; removing the channel takes them away again
+    added?: boolean
+    offset?: number
+}
+
+// What a channel's own piece of tissue has been through: the doses it is still
+// desensitized by, the contractions that tire it and overdose injury
+export interface ChannelTissue {
+    exposureHistory: ExposureHistory
+    contractionCount: number
+    tissueDamage: TissueDamage
+}
+
+export const FRESH_TISSUE: ChannelTissue = { exposureHistory: INITIAL_EXPOSURE_HISTORY, contractionCount: 0, tissueDamage: NO_DAMAGE }
+
+// The parts of an ImageData layout channels are made from
+interface LayoutLever {
+    id: string
+    x: number
+    y: number
+    centerX?: number
+    centerY?: number
+    penTipOffsetX?: number
+    penTipOffsetY?: number
+}
+
+interface LayoutArea {
+    id: string
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+interface Layout {
+    baseImageDimensions: { width: number; height: number }
+    subImages: LayoutLever[]
+    drawableAreas: LayoutArea[]
+}
+
+// Vertical gap (px) between the areas of channels added one below another
+const CHANNEL_GAP = 20
+
+// A sub-image is a lever once its pivot and pen tip have been set
+export const isLever = <T extends LayoutLever>(image: T): image is T & Required<Pick<LayoutLever, 'centerX' | 'centerY' | 'penTipOffsetX' | 'penTipOffsetY'>> =>
+    image.centerX !== undefined && image.centerY !== undefined &&
+    image.penTipOffsetX !== undefined && image.penTipOffsetY !== undefined
+
+const inArea = (area: LayoutArea, x: number, y: number) =>
+    x >= area.x && x <= area.x + area.width && y >= area.y && y <= area.y + area.height
+
+// One channel per lever whose pen rests on a drawable area; the first is the test
+export const layoutChannels = (layout: Layout): RecordingChannel[] =>
+    layout.subImages.filter(isLever).flatMap(lever => {
+        const area = layout.drawableAreas.find(a => inArea(a, lever.x + lever.penTipOffsetX, lever.y + lever.penTipOffsetY))
+        return area ? [{ leverId: lever.id, areaId: area.id }] : []
+    }).map((binding, i) => ({ id: `channel-${binding.leverId}`, name: `Channel ${i + 1}`, ...binding, role: i === 0 ? 'test' : 'control' }))
+
+// Each channel's tissue draws its own variability from its id, so removing
+// another channel leaves it as it was; the first keeps the session seed
+export const channelSeed = (seed: number, channels: RecordingChannel[], channelId: string) => {
+    if (channels[0]?.id === channelId) return seed
+    let hash = 0x811c9dc5
+    for (let i = 0; i < channelId.length; i++) hash = Math.imul(hash ^ channelId.charCodeAt(i), 0x01000193)
+    return (seed ^ hash) >>> 0
+}
+
+// The layout with the lever and area of every added channel, so a layout
+// need not be stored once its channels are
+export const channelLayout = <T extends Layout>(layout: T, channels: RecordingChannel[]): T => {
+    const lever = layout.subImages.find(img => img.id === channels[0]?.leverId)
+    const area = layout.drawableAreas.find(a => a.id === channels[0]?.areaId)
+    const added = channels.filter(c => c.added && c.offset !== undefined && !layout.subImages.some(img => img.id === c.leverId))
+    if (!lever || !isLever(lever) || !area || added.length === 0) return layout
+    return {
+        ...layout,
+        subImages: [...layout.subImages, ...added.map(c => ({ ...lever, id: c.leverId, y: lever.y + c.offset!, centerY: lever.centerY + c.offset! }))],
+        drawableAreas: [...layout.drawableAreas, ...added.map(c => ({ ...area, id: c.areaId, y: area.y + c.offset! }))],
+    }
+}
+
+// A further channel in the first free place below the first, or null once
+// there is no room left on the image. New ids follow the layout editor's.
+export const addChannel = <T extends Layout>(layout: T, channels: RecordingChannel[], now = Date.now()) => {
+    const area = layout.drawableAreas.find(a => a.id === channels[0]?.areaId)
+    if (!area) return null
+    let offset = area.height + CHANNEL_GAP
+    while (channels.some(c => c.offset === offset)) offset += area.height + CHANNEL_GAP
+    if (area.y + offset + area.height > layout.baseImageDimensions.height) return null
+    let number = channels.length + 1
+    while (channels.some(c => c.name === `Channel ${number}`)) number++
+    const leverId = `sub-${now}-0`
+    const channel: RecordingChannel = {
+        id: `channel-${leverId}`,
+        name: `Channel ${number}`,
+        leverId,
+        areaId: `area-${now}`,
+        role: 'control',
+        added: true,
+        offset,
+    }
+    const next = channelLayout(layout, [...channels, channel])
+    return next === layout ? null : { layout: next, channel }
+}
+
+// The layout without an added channel's lever and area
+export const removeChannel = <T extends Layout>(layout: T, channel: RecordingChannel): T =>
+    channel.added
+        ? { ...layout, subImages: layout.subImages.filter(img => img.id !== channel.leverId), drawableAreas: layout.drawableAreas.filter(a => a.id !== channel.areaId) }
+        : layout
+
+// A channel's tissue, fresh until it is first dosed
+export const channelTissue = (tissues: Record<string, ChannelTissue>, channelId: string | undefined) =>
+    (channelId !== undefined ? tissues[channelId] : undefined) ?? FRESH_TISSUE
+
+// Pen rise of a full-scale contraction on a channel's paper, or null while its
+// lever has no pivot and pen tip set over an area
+export const channelFullScale = (layout: Layout, channel: RecordingChannel | undefined, magnification: number) => {
+    const lever = layout.subImages.find(img => img.id === channel?.leverId)
+    const area = layout.drawableAreas.find(a => a.id === channel?.areaId)
+    return lever && isLever(lever) && area ? fullScaleRise(lever, area, leverCalibration(lever, magnification)) : null
+}
+
+// Rows recorded on one channel's tissue, for analyses that must not pool
+// tissues; rows from before there were channels belong to the first
+export const channelObservations = <T extends { channelId?: string }>(observations: T[], channels: RecordingChannel[], channelId: string | undefined) =>
+    observations.filter(o => (o.channelId ?? channels[0]?.id) === channelId)
@@ -0,0 +1,44 @@
+// The simulated lab clock. Everything timed in the simulation (drift, rhythm,
+// recovery from tachyphylaxis, stock decay, hypoxia, the drum) reads this clock
+// instead of Date.now(). It keeps the same ms scale, SIMULATION_MS_PER_SECOND
+// to a simulated second, but stands still while paused and runs faster when
+// fast-forwarded.
+
+import { SIMULATION_MS_PER_SECOND } from './kinetics'
+
+export interface LabClock {
+    // Reading (ms) when the clock was last started, stopped or changed rate,
+    // and the wall time it happened
+    time: number
+    setAt: number
+    running: boolean
+    // Lab ms per wall ms
+    rate: number
+}
+
+// Rates offered for fast-forwarding
+export const CLOCK_RATES = [1, 2, 5, 10]
+
+// A stopped clock set to the wall time, so timestamps taken before it still fit
+export const createClock = (now = Date.now()): LabClock => ({ time: now, setAt: now, running: false, rate: 1 })
+
+export const clockTime = (clock: LabClock, wallNow = Date.now()) =>
+    clock.running ? clock.time + (wallNow - clock.setAt) * clock.rate : clock.time
+
+// The clock from `wallNow` with the changes applied; its reading carries on
+export const updateClock = (clock: LabClock, changes: Partial<Pick<LabClock, 'running' | 'rate'>>, wallNow = Date.now()): LabClock =>
+    ({ ...clock, ...changes, time: clockTime(clock, wallNow), setAt: wallNow })
+
+// The clock moved on by `ms` of lab time at once, as while the bench is left
+// to stand; it does not start or stop
+export const advanceClock = (clock: LabClock, ms: number, wallNow = Date.now()): LabClock =>
+    ({ ...clock, time: clockTime(clock, wallNow) + ms, setAt: wallNow })
+
+// Drum time (simulated seconds) at a clock reading; the time marker counts it off
+export const drumSeconds = (time: number) => time / SIMULATION_MS_PER_SECOND
+
+// Simulated time since `from`, as m:ss
+export const formatClock = (from: number, to: number) => {
+    const seconds = Math.max(0, Math.floor((to - from) / SIMULATION_MS_PER_SECOND))
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
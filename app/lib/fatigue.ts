@@ -0,0 +1,27 @@
+// Long sessions: the tissue tires a little with every contraction and its
+// resting tone drifts, so control doses have to be repeated to check the
+// preparation. Drift is in % of full-scale response; times are simulated.
+
+import { simulatedMinutes } from './kinetics'
+import { createRandom } from './variability'
+
+// Fraction of the maximal response lost per contraction
+export const FATIGUE_PER_CONTRACTION = 0.015
+
+export const fatigueFactor = (contractions: number) =>
+    Math.pow(1 - FATIGUE_PER_CONTRACTION, Math.max(0, contractions))
+
+// Each preparation drifts at its own steady rate (up to this, % per simulated
+// minute, either way) until the drift reaches MAX_DRIFT
+export const MAX_DRIFT_RATE = 0.25
+export const MAX_DRIFT = 10
+
+// Positive drift raises the resting tone (the contraction direction)
+export const baselineDrift = (seed: number, mountedAt: number, now: number) => {
+    const random = createRandom((seed ^ 0x27d4eb2f) >>> 0)
+    const rate = MAX_DRIFT_RATE * (2 * random() - 1)
+    return Math.max(-MAX_DRIFT, Math.min(MAX_DRIFT, rate * simulatedMinutes(mountedAt, now)))
+}
+
+// Simulated minutes a freshly mounted tissue is left to equilibrate before dosing
+export const EQUILIBRATION_MINUTES = 30
@@ -0,0 +1,43 @@
+// Time course of a contraction: latency after the dose reaches the bath, a
+// rise to peak, a plateau for as long as the drug stays in contact, and an
+// exponential relaxation once the bath is washed. Times are simulated seconds.
+
+export interface KineticProfile {
+    latency: number
+    // Time from the end of the latency to ~95% of the peak
+    timeToPeak: number
+    relaxationHalfTime: number
+}
+
+// Real milliseconds of animation per simulated second
+export const SIMULATION_MS_PER_SECOND = 100
+
+// Simulated minutes between two wall-clock times (ms)
+export const simulatedMinutes = (from: number, to: number) =>
+    Math.max(0, to - from) / SIMULATION_MS_PER_SECOND / 60
+
+// Kymograph drum speeds, mm of paper per simulated second
+export const DRUM_SPEEDS = [0.25, 0.5, 1, 2.5]
+export const DEFAULT_DRUM_SPEED = 1
+
+// Canvas pixels per mm of paper
+export const PX_PER_MM = 5
+
+// Drum travel per simulated second, in canvas pixels
+export const drumPxPerSecond = (speed: number) => speed * PX_PER_MM
+
+export const CONTACT_TIMES = [15, 30, 60, 90]
+export const DEFAULT_CONTACT_TIME = 30
+
+// Fraction of the eventual response developed `t` seconds after dosing
+export const contractionProgress = (t: number, kinetics: KineticProfile) => {
+    if (t <= kinetics.latency) return 0
+    return 1 - Math.exp((-3 * (t - kinetics.latency)) / kinetics.timeToPeak)
+}
+
+// Fraction of the way back to baseline `t` seconds after the wash
+export const relaxationProgress = (t: number, kinetics: KineticProfile) =>
+    1 - Math.pow(2, -t / kinetics.relaxationHalfTime)
+
+// Time to relax to within ~3% of baseline
+export const relaxationDuration = (kinetics: KineticProfile) => 5 * kinetics.relaxationHalfTime
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { LOAD_ARM, MAX_ROTATION_ANGLE, fullScaleRise, leverCalibration, penRise } from './lever'
+
+// A level lever 400 px from pivot to pen tip, writing on paper 200 px tall
+const lever = { x: 100, y: 100, centerX: 100, centerY: 200, penTipOffsetX: 400, penTipOffsetY: 100 }
+const paper = { y: 100, height: 200 }
+
+describe('leverCalibration', () => {
+    it('scales the mm each px stands for with the magnification', () => {
+        const x10 = leverCalibration(lever, 10)
+        const x20 = leverCalibration(lever, 20)
+        expect(x10.mmPerPx).toBeCloseTo((LOAD_ARM * 10) / 400)
+        expect(x20.mmPerPx).toBeCloseTo(x10.mmPerPx * 2)
+        expect(x20.tissueMmPerPx).toBeCloseTo(x10.tissueMmPerPx)
+    })
+})
+
+describe('penRise', () => {
+    it('measures a rise that stays on the paper in full', () => {
+        const rise = penRise(lever, paper, leverCalibration(lever, 10), 0, -5)
+        expect(rise.clipped).toBe(false)
+        expect(rise.px).toBeCloseTo(400 * Math.sin((5 * Math.PI) / 180))
+    })
+
+    it('cuts a rise that runs off the paper at its edge', () => {
+        const calibration = leverCalibration(lever, 10)
+        const rise = penRise(lever, paper, calibration, 0, -20)
+        expect(rise.clipped).toBe(true)
+        expect(rise.px).toBeCloseTo(100)
+        expect(rise.mm).toBeCloseTo(100 * calibration.mmPerPx)
+    })
+})
+
+describe('fullScaleRise', () => {
+    it('is the rise of a full turn of the lever, in mm at the magnification', () => {
+        const tall = { y: 0, height: 400 }
+        const calibration = leverCalibration(lever, 10)
+        const rise = fullScaleRise(lever, tall, calibration)
+        expect(rise.px).toBeCloseTo(400 * Math.sin((MAX_ROTATION_ANGLE * Math.PI) / 180))
+        expect(rise.mm).toBeCloseTo(rise.px * calibration.mmPerPx)
+        expect(rise).toEqual(penRise(lever, tall, calibration, 0, -MAX_ROTATION_ANGLE))
+    })
+})
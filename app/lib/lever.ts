@@ -0,0 +1,83 @@
+// The writing lever as a measuring instrument. The tissue thread is tied
+// LOAD_ARM mm from the pivot and the pen writes `magnification` times further
+// out, so the lever is really LOAD_ARM × magnification mm long. Its length
+// from pivot to pen tip on the image then gives the mm of pen rise each px of
+// trace height stands for.
+
+// Pivot to tissue thread (mm)
+export const LOAD_ARM = 10
+
+// Pen arm : load arm ratios the lever can be set to
+export const MAGNIFICATIONS = [5, 10, 15, 20]
+export const DEFAULT_MAGNIFICATION = 10
+
+// Turn of the lever (degrees) for a full-scale, 100% contraction
+export const MAX_ROTATION_ANGLE = 20
+
+interface LeverGeometry {
+    x: number
+    y: number
+    centerX: number
+    centerY: number
+    penTipOffsetX: number
+    penTipOffsetY: number
+}
+
+// The paper the pen writes on; it cannot rise above or fall below it
+interface PaperArea {
+    y: number
+    height: number
+}
+
+export interface LeverCalibration {
+    magnification: number
+    // Pivot to pen tip, on the image (px) and on the apparatus (mm)
+    lengthPx: number
+    lengthMm: number
+    // Pen rise (mm) per px of trace height, and tissue shortening (mm) per px
+    mmPerPx: number
+    tissueMmPerPx: number
+}
+
+export interface PenRise {
+    px: number
+    mm: number
+    // The pen ran off the paper, so the rise is cut off at its edge
+    clipped: boolean
+}
+
+const penTipFromPivot = (lever: LeverGeometry) => ({
+    dx: lever.x + lever.penTipOffsetX - lever.centerX,
+    dy: lever.y + lever.penTipOffsetY - lever.centerY,
+})
+
+export const leverCalibration = (lever: LeverGeometry, magnification: number): LeverCalibration => {
+    const { dx, dy } = penTipFromPivot(lever)
+    const lengthPx = Math.hypot(dx, dy)
+    const lengthMm = LOAD_ARM * magnification
+    const mmPerPx = lengthPx > 0 ? lengthMm / lengthPx : 0
+    return { magnification, lengthPx, lengthMm, mmPerPx, tissueMmPerPx: mmPerPx / magnification }
+}
+
+// Height of the pen tip on the image with the lever turned by `rotation`
+// degrees about its pivot, as the page draws it
+const penTipY = (lever: LeverGeometry, rotation: number) => {
+    const { dx, dy } = penTipFromPivot(lever)
+    const radians = (rotation * Math.PI) / 180
+    return lever.centerY + dx * Math.sin(radians) + dy * Math.cos(radians)
+}
+
+// How far the pen rises on the paper as the lever turns from one rotation to
+// another, measured as it is drawn: within the edges of the pen's area
+export const penRise = (lever: LeverGeometry, area: PaperArea, calibration: LeverCalibration, from: number, to: number): PenRise => {
+    const onPaper = (y: number) => Math.max(area.y, Math.min(area.y + area.height, y))
+    const fromY = penTipY(lever, from)
+    const toY = penTipY(lever, to)
+    const px = Math.abs(onPaper(toY) - onPaper(fromY))
+    return { px, mm: px * calibration.mmPerPx, clipped: onPaper(fromY) !== fromY || onPaper(toY) !== toY }
+}
+
+// The rise a full-scale contraction writes from the lever at rest; an isotonic
+// response in mm is a percentage of this
+export const fullScaleRise = (lever: LeverGeometry, area: PaperArea, calibration: LeverCalibration) =>
+    penRise(lever, area, calibration, 0, -MAX_ROTATION_ANGLE)
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { SIMULATION_MS_PER_SECOND } from './kinetics'
+import { RECOVERY_TIME_CONSTANT, effectiveExposures, isobologramAnalysis, schildAnalysis } from './pharmacology'
+import { ConcentrationUnit, convertConcentration, formatConcentration, toMicrogramsPerMl } from './units'
+
+describe('effectiveExposures', () => {
+    const washedAt = 50_000
+    const history = { recentExposures: 4, lastExposureAt: washedAt - 3000, lastWashAt: washedAt }
+    const after = (seconds: number) => effectiveExposures(history, washedAt + seconds * SIMULATION_MS_PER_SECOND)
+
+    it('keeps every exposure until the agonist is washed out', () => {
+        expect(effectiveExposures({ ...history, lastWashAt: null }, washedAt + 1_000_000)).toBe(4)
+    })
+
+    it('recovers with a half-life of ln 2 × RECOVERY_TIME_CONSTANT simulated seconds', () => {
+        expect(RECOVERY_TIME_CONSTANT).toBe(200)
+        expect(after(0)).toBe(4)
+        expect(after(Math.LN2 * 200)).toBeCloseTo(2, 10)
+        expect(after(2 * Math.LN2 * 200)).toBeCloseTo(1, 10)
+    })
+})
+
+// Points of a Hill curve (slope 1) spread evenly on the log scale about its
+// EC50, so the 10–90% fit passes through it exactly
+const curve = (ec50: number, treatment = {}) => [0.25, 0.5, 1, 2, 4].map(f => ({
+    ...treatment,
+    concInBath: ec50 * f,
+    percentResponse: (100 * f) / (1 + f),
+}))
+
+describe('schildAnalysis', () => {
+    it('gives a slope of 1 and pA2 = −log K_B for a competitive antagonist', () => {
+        // K_B = 10 nM; each concentration (µM) shifts the curve by DR = 1 + [B] / K_B
+        const kB = 0.01
+        const records = [
+            ...curve(0.05),
+            ...[0.1, 1, 10].flatMap(conc => curve(0.05 * (1 + conc / kB), { antagonistId: 'atropine', antagonistConcentration: conc })),
+        ]
+        const [result] = schildAnalysis(records)
+        expect(result.antagonistId).toBe('atropine')
+        expect(result.points.map(p => p.doseRatio)).toEqual([11, 101, 1001].map(dr => expect.closeTo(dr, 6)))
+        expect(result.slope).toBeCloseTo(1, 10)
+        expect(result.pA2).toBeCloseTo(8, 10)
+    })
+})
+
+describe('isobologramAnalysis', () => {
+    it('gives a combination index of 1 for an additive pair', () => {
+        // Alone, 0.2 µg/mL of ACh or 10 µg/mL of decamethonium gives 50%; at a
+        // ratio of 50 the additive mixture needs a / 0.2 + 50a / 10 = 1
+        const combination = { secondAgonistId: 'decamethonium', combinationRatio: 50, interaction: 'additive' as const }
+        const records = [
+            ...curve(0.2),
+            ...curve(10, { agonistId: 'decamethonium' }),
+            ...curve(0.1, combination),
+        ]
+        const [result] = isobologramAnalysis(records, 50)
+        expect(result.firstAlone).toBeCloseTo(0.2, 10)
+        expect(result.secondAlone).toBeCloseTo(10, 10)
+        expect(result.points).toHaveLength(1)
+        expect(result.points[0].firstConcentration).toBeCloseTo(0.1, 10)
+        expect(result.points[0].secondConcentration).toBeCloseTo(5, 10)
+        expect(result.points[0].combinationIndex).toBeCloseTo(1, 10)
+    })
+})
+
+describe('concentration units', () => {
+    // Acetylcholine chloride, g/mol
+    const mw = 181.66
+
+    it('takes µg/mL to molar through the molecular weight', () => {
+        // 1 µg/mL = 1 mg/L = 1e-3 / 181.66 mol/L
+        expect(convertConcentration(1, 'M', mw)).toBeCloseTo(5.5048e-6, 10)
+        expect(convertConcentration(1, 'µM', mw)).toBeCloseTo(5.5048, 4)
+        expect(convertConcentration(1, 'log M', mw)).toBeCloseTo(-5.2593, 4)
+        expect(formatConcentration(1, 'M', mw)).toBe('5.50e-6')
+    })
+
+    it.each<ConcentrationUnit>(['µg/mL', 'ng/mL', 'M', 'mM', 'µM', 'log M'])('round-trips µg/mL through %s', unit => {
+        expect(toMicrogramsPerMl(convertConcentration(0.37, unit, mw), unit, mw)).toBeCloseTo(0.37, 12)
+    })
+})
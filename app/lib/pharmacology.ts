@@ -0,0 +1,528 @@
+// Shared response engine for the organ-bath experiments.
+// All agonist concentrations are bath concentrations in µg/mL; antagonist
+// concentrations are bath concentrations in µM.
+
+import { BathEffect, NOMINAL_BATH } from './bath'
+import { KineticProfile, SIMULATION_MS_PER_SECOND, simulatedMinutes } from './kinetics'
+import { findPreparation } from './preparations'
+import { RHYTHM_MODULATORS } from './rhythm'
+import { NOMINAL_TISSUE, TissueProfile } from './variability'
+
+// Cap so the lever never exceeds max visually, and never rounds to exactly 100
+export const RESPONSE_CEILING = 99.5
+
+// Hill parameters and kinetics depend on the tissue, so they live with each
+// preparation in ./preparations
+export interface Agonist {
+    id: string
+    name: string
+    shortName: string
+    molecularWeight: number
+    // Broken down by acetylcholinesterase, so potentiated by anticholinesterases
+    hydrolysedByCholinesterase: boolean
+    // Half-life of the dilute stock solution kept on ice, simulated minutes
+    stockHalfLife: number
+}
+
+export const AGONISTS: Agonist[] = [
+    { id: 'acetylcholine', name: 'Acetylcholine', shortName: 'ACh', molecularWeight: 181.66, hydrolysedByCholinesterase: true, stockHalfLife: 480 },
+    { id: 'decamethonium', name: 'Decamethonium', shortName: 'C10', molecularWeight: 418.29, hydrolysedByCholinesterase: false, stockHalfLife: Infinity },
+    { id: 'histamine', name: 'Histamine', shortName: 'His', molecularWeight: 111.15, hydrolysedByCholinesterase: false, stockHalfLife: 2880 },
+    { id: 'oxytocin', name: 'Oxytocin', shortName: 'OT', molecularWeight: 1007.19, hydrolysedByCholinesterase: false, stockHalfLife: 1440 },
+    { id: 'serotonin', name: '5-Hydroxytryptamine', shortName: '5-HT', molecularWeight: 176.22, hydrolysedByCholinesterase: false, stockHalfLife: 720 },
+]
+
+export const DEFAULT_AGONIST_ID = 'acetylcholine'
+
+export const findAgonist = (id: string | null | undefined) =>
+    AGONISTS.find(a => a.id === (id ?? DEFAULT_AGONIST_ID)) ?? AGONISTS[0]
+
+// Stock solutions lose potency over the session, several times faster when
+// left on the bench than when kept on ice
+export type StockStorage = 'ice' | 'room-temperature'
+
+export const ROOM_TEMPERATURE_DEGRADATION_FACTOR = 6
+
+const degradationRate = (storage: StockStorage) => (storage === 'room-temperature' ? ROOM_TEMPERATURE_DEGRADATION_FACTOR : 1)
+
+// Fraction of the labelled concentration still intact in a stock prepared at
+// `preparedAt` (ms), as of `now`
+export const stockPotency = (agonistId: string | null | undefined, storage: StockStorage, preparedAt: number, now: number) =>
+    Math.pow(2, -(simulatedMinutes(preparedAt, now) * degradationRate(storage)) / findAgonist(agonistId).stockHalfLife)
+
+// Moving a stock between ice and bench keeps what has already been lost: the
+// preparation time is shifted so the current potency is unchanged.
+export const rebaseStockPreparedAt = (preparedAt: number, from: StockStorage, to: StockStorage, now: number) =>
+    now - (Math.max(0, now - preparedAt) * degradationRate(from)) / degradationRate(to)
+
+export type AntagonistMechanism = 'competitive' | 'non-competitive'
+
+// Affinity (pKB) and the receptor blocked depend on the tissue; see ./preparations
+export interface Antagonist {
+    id: string
+    name: string
+    shortName: string
+    mechanism: AntagonistMechanism
+    molecularWeight: number
+}
+
+export const ANTAGONISTS: Antagonist[] = [
+    { id: 'atropine', name: 'Atropine', shortName: 'Atr', mechanism: 'competitive', molecularWeight: 289.38 },
+    { id: 'd-tubocurarine', name: 'd-Tubocurarine', shortName: 'd-TC', mechanism: 'competitive', molecularWeight: 609.7 },
+    { id: 'mepyramine', name: 'Mepyramine', shortName: 'Mep', mechanism: 'competitive', molecularWeight: 285.39 },
+    { id: 'methysergide', name: 'Methysergide', shortName: 'Mety', mechanism: 'competitive', molecularWeight: 353.46 },
+    { id: 'atosiban', name: 'Atosiban', shortName: 'Ato', mechanism: 'competitive', molecularWeight: 994.19 },
+    { id: 'papaverine', name: 'Papaverine', shortName: 'Pap', mechanism: 'non-competitive', molecularWeight: 339.39 },
+]
+
+export const findAntagonist = (id: string | null | undefined) =>
+    ANTAGONISTS.find(a => a.id === id)
+
+export interface Anticholinesterase {
+    id: string
+    name: string
+    shortName: string
+    // Leftward shift of the curve of a cholinesterase-sensitive agonist
+    foldShift: number
+    // Slower relaxation after wash while the enzyme stays inhibited
+    relaxationFactor: number
+    molecularWeight: number
+}
+
+export const ANTICHOLINESTERASES: Anticholinesterase[] = [
+    { id: 'physostigmine', name: 'Physostigmine', shortName: 'Phy', foldShift: 4, relaxationFactor: 2.5, molecularWeight: 275.35 },
+    { id: 'neostigmine', name: 'Neostigmine', shortName: 'Neo', foldShift: 6, relaxationFactor: 3, molecularWeight: 223.29 },
+]
+
+export const findAnticholinesterase = (id: string | null | undefined) =>
+    ANTICHOLINESTERASES.find(a => a.id === id)
+
+// Every drug the simulator can put in the bath, for converting its
+// concentrations to molar units (see ./units)
+export interface DrugEntry {
+    id: string
+    name: string
+    shortName: string
+    molecularWeight: number
+}
+
+export const DRUGS: DrugEntry[] = [...AGONISTS, ...ANTAGONISTS, ...ANTICHOLINESTERASES, ...RHYTHM_MODULATORS]
+
+export const findDrug = (id: string | null | undefined) =>
+    DRUGS.find(d => d.id === id)
+
+// The agonist's Hill parameters and kinetics on a preparation; falls back to
+// the preparation's first agonist
+export const findAgonistProfile = (agonistId: string | null | undefined, preparationId?: string | null) => {
+    const preparation = findPreparation(preparationId)
+    return preparation.agonists.find(p => p.agonistId === agonistId) ?? preparation.agonists[0]
+}
+
+// Agonists that can be used on a preparation, in the order it lists them
+export const preparationAgonists = (preparationId?: string | null) =>
+    findPreparation(preparationId).agonists.map(p => findAgonist(p.agonistId))
+
+// The antagonist's profile on a preparation, if it blocks the given agonist there
+const blockingProfile = (antagonistId: string | null | undefined, agonistId?: string | null, preparationId?: string | null) => {
+    const profile = findPreparation(preparationId).antagonists.find(p => p.antagonistId === antagonistId)
+    if (!profile) return undefined
+    if (profile.receptor && profile.receptor !== findAgonistProfile(agonistId, preparationId).receptor) return undefined
+    return profile
+}
+
+const potentiatingAnticholinesterase = (agonist: Agonist, anticholinesteraseId: string | null | undefined) =>
+    agonist.hydrolysedByCholinesterase ? findAnticholinesterase(anticholinesteraseId) : undefined
+
+// Kinetics of the agonist after any pretreatment has been taken into account
+export const effectiveKinetics = (agonistId: string | null | undefined, anticholinesteraseId?: string | null, preparationId?: string | null): KineticProfile => {
+    const agonist = findAgonist(agonistId)
+    const { kinetics } = findAgonistProfile(agonist.id, preparationId)
+    const anticholinesterase = potentiatingAnticholinesterase(agonist, anticholinesteraseId)
+    if (!anticholinesterase) return kinetics
+    return { ...kinetics, relaxationHalfTime: kinetics.relaxationHalfTime * anticholinesterase.relaxationFactor }
+}
+
+export type InteractionModel = 'additive' | 'synergistic' | 'antagonistic'
+
+export const INTERACTION_MODELS: InteractionModel[] = ['additive', 'synergistic', 'antagonistic']
+
+// Interaction parameter α of Greco's universal response surface: 0 is Loewe
+// additivity, positive values synergy, negative values antagonism (α ≥ −1).
+export const INTERACTION_ALPHA: Record<InteractionModel, number> = { additive: 0, synergistic: 4, antagonistic: -0.9 }
+
+// Bath concentration of the second agonist per µg/mL of the first
+export const COMBINATION_RATIOS = [0.25, 0.5, 1, 2, 4]
+
+export interface Treatment {
+    agonistId?: string
+    antagonistId?: string | null
+    antagonistConcentration?: number
+    anticholinesteraseId?: string | null
+    // Second agonist given in the same cycle at a fixed ratio to the first
+    secondAgonistId?: string | null
+    combinationRatio?: number
+    interaction?: InteractionModel
+}
+
+export interface ResponseConditions extends Treatment {
+    // Tissue the drugs are acting on (defaults to the frog rectus)
+    preparationId?: string | null
+    // Fraction of the tissue's maximal response still available (tachyphylaxis
+    // and fatigue)
+    sensitivity?: number
+    // Per-preparation variability and the multiplicative noise on this response
+    tissue?: TissueProfile
+    noise?: number
+    // Departure of the bath from the preparation's standard conditions
+    bath?: BathEffect
+}
+
+// Fractional receptor occupancy by the antagonist, [B] / KB
+const antagonistOccupancyRatio = (pKB: number, concentrationMicroMolar: number) =>
+    (concentrationMicroMolar * 1e-6) / Math.pow(10, -pKB)
+
+// Gaddum: a competitive antagonist at [B] shifts the agonist curve right by
+// DR = 1 + [B] / KB, where KB = 10^-pA2 (molar).
+// Antagonists only act on agonists at the receptor they block on this tissue.
+export const calculateDoseRatio = (
+    antagonistId: string | null | undefined,
+    concentrationMicroMolar = 0,
+    agonistId?: string | null,
+    preparationId?: string | null
+): number => {
+    const antagonist = findAntagonist(antagonistId)
+    const profile = blockingProfile(antagonistId, agonistId, preparationId)
+    if (!antagonist || !profile || antagonist.mechanism !== 'competitive' || concentrationMicroMolar <= 0) return 1
+    return 1 + antagonistOccupancyRatio(profile.pKB, concentrationMicroMolar)
+}
+
+// A non-competitive blocker leaves EC50 alone and depresses the attainable
+// maximum to Emax / (1 + [B] / KB), so no agonist dose can surmount it.
+export const calculateEmaxFraction = (
+    antagonistId: string | null | undefined,
+    concentrationMicroMolar = 0,
+    agonistId?: string | null,
+    preparationId?: string | null
+): number => {
+    const antagonist = findAntagonist(antagonistId)
+    const profile = blockingProfile(antagonistId, agonistId, preparationId)
+    if (!antagonist || !profile || antagonist.mechanism !== 'non-competitive' || concentrationMicroMolar <= 0) return 1
+    return 1 / (1 + antagonistOccupancyRatio(profile.pKB, concentrationMicroMolar))
+}
+
+// Hill parameters of one agonist on this tissue, under the given treatment
+const agonistParameters = (agonist: Agonist, conditions: ResponseConditions) => {
+    const { antagonistId, antagonistConcentration, preparationId } = conditions
+    const profile = findAgonistProfile(agonist.id, preparationId)
+    const tissue = conditions.tissue ?? NOMINAL_TISSUE
+    const bath = conditions.bath ?? NOMINAL_BATH
+    const potentiation = potentiatingAnticholinesterase(agonist, conditions.anticholinesteraseId)?.foldShift ?? 1
+    return {
+        ec50: profile.ec50 * tissue.ec50Factor * bath.ec50Factor * calculateDoseRatio(antagonistId, antagonistConcentration, agonist.id, preparationId) / potentiation,
+        hill: profile.hillCoefficient * tissue.hillFactor,
+        emax: 100 * profile.intrinsicActivity * tissue.emaxFactor * bath.emaxFactor * (conditions.sensitivity ?? 1) *
+            calculateEmaxFraction(antagonistId, antagonistConcentration, agonist.id, preparationId),
+    }
+}
+
+export const calculateResponse = (concInBath: number, conditions: ResponseConditions = {}): number => {
+    if (concInBath <= 0) return 0
+    const agonist = findAgonist(conditions.agonistId)
+    const first = agonistParameters(agonist, conditions)
+    const { secondAgonistId, combinationRatio, interaction } = normalizeTreatment(conditions)
+
+    let units = concInBath / first.ec50
+    let hill = first.hill
+    let emax = first.emax
+    if (secondAgonistId) {
+        // Both drugs in EC50 units; the combined "dose" r solves
+        // 1 = (u + v) / r + α·u·v / r² (Greco, with a common slope), which
+        // reduces to Loewe additivity, r = u + v, when α = 0.
+        const second = agonistParameters(findAgonist(secondAgonistId), conditions)
+        const u = units
+        const v = (concInBath * combinationRatio) / second.ec50
+        const alpha = INTERACTION_ALPHA[interaction]
+        units = (u + v + Math.sqrt(Math.max(0, (u + v) ** 2 + 4 * alpha * u * v))) / 2
+        hill = (u * first.hill + v * second.hill) / (u + v)
+        emax = (u * first.emax + v * second.emax) / (u + v)
+    }
+    const numerator = Math.pow(units, hill)
+    return Math.min(RESPONSE_CEILING, emax * (numerator / (1 + numerator)) * (conditions.noise ?? 1))
+}
+
+// Tachyphylaxis: every exposure leaves the receptors partly desensitized. The
+// tissue only recovers once the agonist is washed out, exponentially with time.
+export const TACHYPHYLAXIS_FACTOR = 0.15
+export const RECOVERY_TIME_CONSTANT = 200 // simulated seconds
+
+export interface ExposureHistory {
+    recentExposures: number
+    lastExposureAt: number | null
+    lastWashAt: number | null
+}
+
+export const INITIAL_EXPOSURE_HISTORY: ExposureHistory = { recentExposures: 0, lastExposureAt: null, lastWashAt: null }
+
+// Exposures still "felt" by the tissue at lab-clock time `now` (ms)
+export const effectiveExposures = (history: ExposureHistory, now: number) => {
+    const { recentExposures, lastExposureAt, lastWashAt } = history
+    if (recentExposures <= 0) return 0
+    const washedSinceExposure = lastWashAt !== null && (lastExposureAt === null || lastWashAt >= lastExposureAt)
+    if (!washedSinceExposure) return recentExposures
+    const secondsSinceWash = Math.max(0, (now - lastWashAt) / SIMULATION_MS_PER_SECOND)
+    return recentExposures * Math.exp(-secondsSinceWash / RECOVERY_TIME_CONSTANT)
+}
+
+// Agonist has been given since the tissue was last washed
+export const exposedSinceWash = (history: ExposureHistory) =>
+    history.lastExposureAt !== null && (history.lastWashAt === null || history.lastExposureAt > history.lastWashAt)
+
+export const calculateSensitivity = (history: ExposureHistory, now: number) =>
+    1 / (1 + TACHYPHYLAXIS_FACTOR * effectiveExposures(history, now))
+
+// Fills in defaults so equal treatments compare equal
+export const normalizeTreatment = (treatment: Treatment) => {
+    const antagonistId = findAntagonist(treatment.antagonistId) && (treatment.antagonistConcentration ?? 0) > 0 ? treatment.antagonistId as string : null
+    const agonistId = findAgonist(treatment.agonistId).id
+    const secondAgonist = AGONISTS.find(a => a.id === treatment.secondAgonistId && a.id !== agonistId)
+    const secondAgonistId = secondAgonist && (treatment.combinationRatio ?? 0) > 0 ? secondAgonist.id : null
+    return {
+        agonistId,
+        antagonistId,
+        antagonistConcentration: antagonistId ? treatment.antagonistConcentration as number : 0,
+        anticholinesteraseId: findAnticholinesterase(treatment.anticholinesteraseId)?.id ?? null,
+        secondAgonistId,
+        combinationRatio: secondAgonistId ? treatment.combinationRatio as number : 0,
+        interaction: (secondAgonistId ? treatment.interaction ?? 'additive' : 'additive') as InteractionModel,
+    }
+}
+
+export const describeCombination = (treatment: Treatment) => {
+    const { secondAgonistId, combinationRatio, interaction } = normalizeTreatment(treatment)
+    if (!secondAgonistId) return null
+    return `${findAgonist(secondAgonistId).shortName} ×${combinationRatio} (${interaction})`
+}
+
+export const describeTreatment = (treatment: Treatment) => {
+    const { agonistId, antagonistId, antagonistConcentration, anticholinesteraseId } = normalizeTreatment(treatment)
+    const parts = [
+        agonistId !== DEFAULT_AGONIST_ID ? findAgonist(agonistId).name : null,
+        describeCombination(treatment),
+        antagonistId ? `${findAntagonist(antagonistId)!.name} ${antagonistConcentration} µM` : null,
+        anticholinesteraseId ? findAnticholinesterase(anticholinesteraseId)!.name : null,
+    ].filter(Boolean)
+    return parts.length > 0 ? parts.join(' + ') : 'Control'
+}
+
+export interface TreatmentGroup<T> {
+    key: string
+    agonistId: string
+    antagonistId: string | null
+    antagonistConcentration: number
+    anticholinesteraseId: string | null
+    secondAgonistId: string | null
+    combinationRatio: number
+    interaction: InteractionModel
+    records: T[]
+}
+
+// Splits observations into one curve per treatment, in the order they were
+// first recorded.
+export const groupByTreatment = <T extends Treatment & { concInBath: number }>(
+    records: T[]
+): TreatmentGroup<T>[] => {
+    const groups = new Map<string, TreatmentGroup<T>>()
+    records.forEach(r => {
+        const treatment = normalizeTreatment(r)
+        const key = [
+            treatment.agonistId,
+            treatment.antagonistId ? `${treatment.antagonistId}@${treatment.antagonistConcentration}` : 'control',
+            treatment.anticholinesteraseId ?? '',
+            treatment.secondAgonistId ? `${treatment.secondAgonistId}x${treatment.combinationRatio}:${treatment.interaction}` : '',
+        ].join('/')
+        if (!groups.has(key)) groups.set(key, { key, ...treatment, records: [] })
+        groups.get(key)!.records.push(r)
+    })
+    return [...groups.values()].map(g => ({ ...g, records: [...g.records].sort((a, b) => a.concInBath - b.concInBath) }))
+}
+
+// Linear regression (least-squares)
+export const computeLinearFit = (pts: { x: number; y: number }[]) => {
+    const n = pts.length
+    if (n < 2) return null
+    const meanX = pts.reduce((s, p) => s + p.x, 0) / n
+    const meanY = pts.reduce((s, p) => s + p.y, 0) / n
+    const sxx = pts.reduce((s, p) => s + (p.x - meanX) ** 2, 0)
+    if (sxx === 0) return null
+    const slope = pts.reduce((s, p) => s + (p.x - meanX) * (p.y - meanY), 0) / sxx
+    const intercept = meanY - slope * meanX
+    return { slope, intercept }
+}
+
+// EC50 by linear interpolation on the log-dose line, using only points on the
+// roughly linear 10–90% part of the curve. Returns µg/mL.
+export const estimateEC50 = (pts: { concInBath: number; percentResponse: number }[]) => {
+    const linear = pts
+        .filter(p => p.concInBath > 0 && p.percentResponse >= 10 && p.percentResponse <= 90)
+        .map(p => ({ x: Math.log10(p.concInBath), y: p.percentResponse }))
+    const fit = computeLinearFit(linear)
+    if (!fit || fit.slope <= 0) return null
+    return Math.pow(10, (50 - fit.intercept) / fit.slope)
+}
+
+// Concentration giving `effect` % response, interpolated on the log-dose scale
+// between the two neighbouring doses whose responses straddle it. Returns µg/mL.
+export const interpolateEffectiveConcentration = (pts: { concInBath: number; percentResponse: number }[], effect: number) => {
+    const sorted = pts.filter(p => p.concInBath > 0).sort((a, b) => a.concInBath - b.concInBath)
+    for (let i = 1; i < sorted.length; i++) {
+        const lower = sorted[i - 1]
+        const upper = sorted[i]
+        if (lower.percentResponse <= effect && upper.percentResponse >= effect && upper.percentResponse > lower.percentResponse) {
+            const fraction = (effect - lower.percentResponse) / (upper.percentResponse - lower.percentResponse)
+            return Math.pow(10, Math.log10(lower.concInBath) + fraction * Math.log10(upper.concInBath / lower.concInBath))
+        }
+    }
+    return null
+}
+
+export interface SchildPoint {
+    antagonistConcentration: number
+    logAntagonistMolar: number
+    doseRatio: number
+    logDoseRatioMinusOne: number
+}
+
+export interface SchildResult {
+    antagonistId: string
+    points: SchildPoint[]
+    slope: number | null
+    pA2: number | null
+}
+
+// Schild regression: log(DR − 1) against log[B] (molar). The x-intercept is −pA2.
+export const schildAnalysis = (
+    allRecords: (Treatment & { concInBath: number; percentResponse: number })[],
+    agonistId = DEFAULT_AGONIST_ID
+): SchildResult[] => {
+    const records = allRecords.filter(r => {
+        const treatment = normalizeTreatment(r)
+        return treatment.agonistId === agonistId && !treatment.anticholinesteraseId && !treatment.secondAgonistId
+    })
+    const control = records.filter(r => !r.antagonistId)
+    const controlEC50 = estimateEC50(control)
+    if (!controlEC50) return []
+
+    return ANTAGONISTS.filter(a => a.mechanism === 'competitive').flatMap((antagonist): SchildResult[] => {
+        const treated = records.filter(r => r.antagonistId === antagonist.id && (r.antagonistConcentration ?? 0) > 0)
+        const concentrations = [...new Set(treated.map(r => r.antagonistConcentration as number))].sort((a, b) => a - b)
+        const points = concentrations.flatMap((conc): SchildPoint[] => {
+            const ec50 = estimateEC50(treated.filter(r => r.antagonistConcentration === conc))
+            if (!ec50) return []
+            const doseRatio = ec50 / controlEC50
+            if (doseRatio <= 1) return []
+            return [{
+                antagonistConcentration: conc,
+                logAntagonistMolar: Math.log10(conc * 1e-6),
+                doseRatio,
+                logDoseRatioMinusOne: Math.log10(doseRatio - 1),
+            }]
+        })
+        if (points.length === 0) return []
+        const fit = computeLinearFit(points.map(p => ({ x: p.logAntagonistMolar, y: p.logDoseRatioMinusOne })))
+        if (!fit || fit.slope === 0) {
+            // Single concentration: assume unit slope (pA2 = log(DR − 1) − log[B])
+            const p = points[0]
+            return [{ antagonistId: antagonist.id, points, slope: null, pA2: p.logDoseRatioMinusOne - p.logAntagonistMolar }]
+        }
+        return [{ antagonistId: antagonist.id, points, slope: fit.slope, pA2: fit.intercept / fit.slope }]
+    })
+}
+
+// Relative intrinsic activity: maximal response of the test agonist as a
+// fraction of the maximal response of the full agonist.
+export const relativeIntrinsicActivity = (testResponses: number[], fullResponses: number[]) => {
+    if (testResponses.length === 0 || fullResponses.length === 0) return null
+    const fullMax = Math.max(...fullResponses)
+    if (fullMax <= 0) return null
+    return Math.max(...testResponses) / fullMax
+}
+
+export interface PotentiationResult {
+    anticholinesteraseId: string
+    controlEC50: number
+    potentiatedEC50: number
+    foldShift: number
+}
+
+// Fold leftward shift of the ACh curve after anticholinesterase pretreatment
+export const potentiationAnalysis = (
+    allRecords: (Treatment & { concInBath: number; percentResponse: number })[],
+    agonistId = DEFAULT_AGONIST_ID
+): PotentiationResult[] => {
+    const records = allRecords.filter(r => {
+        const treatment = normalizeTreatment(r)
+        return treatment.agonistId === agonistId && !treatment.antagonistId && !treatment.secondAgonistId
+    })
+    const controlEC50 = estimateEC50(records.filter(r => !findAnticholinesterase(r.anticholinesteraseId)))
+    if (!controlEC50) return []
+    return ANTICHOLINESTERASES.flatMap((anticholinesterase): PotentiationResult[] => {
+        const potentiatedEC50 = estimateEC50(records.filter(r => r.anticholinesteraseId === anticholinesterase.id))
+        if (!potentiatedEC50) return []
+        return [{ anticholinesteraseId: anticholinesterase.id, controlEC50, potentiatedEC50, foldShift: controlEC50 / potentiatedEC50 }]
+    })
+}
+
+export interface IsobolePoint {
+    combinationRatio: number
+    interaction: InteractionModel
+    // Equi-effective concentrations of each drug within the combination
+    firstConcentration: number
+    secondConcentration: number
+    // a / A + b / B: below 1 synergy, above 1 antagonism
+    combinationIndex: number
+}
+
+export interface IsobologramResult {
+    agonistId: string
+    secondAgonistId: string
+    effect: number
+    // Equi-effective concentrations of each drug given alone (the axis intercepts)
+    firstAlone: number
+    secondAlone: number
+    points: IsobolePoint[]
+}
+
+// Isobologram at a chosen effect level for every pair of agonists that has
+// been combined, using each drug's own control curve for the intercepts.
+export const isobologramAnalysis = (
+    allRecords: (Treatment & { concInBath: number; percentResponse: number })[],
+    effect: number
+): IsobologramResult[] => {
+    const groups = groupByTreatment(allRecords).filter(g => !g.antagonistId && !g.anticholinesteraseId)
+    const alone = (agonistId: string) => {
+        const group = groups.find(g => g.agonistId === agonistId && !g.secondAgonistId)
+        return group ? interpolateEffectiveConcentration(group.records, effect) : null
+    }
+    const pairs = [...new Set(groups.filter(g => g.secondAgonistId).map(g => `${g.agonistId}|${g.secondAgonistId}`))]
+    return pairs.flatMap((pair): IsobologramResult[] => {
+        const [agonistId, secondAgonistId] = pair.split('|')
+        const firstAlone = alone(agonistId)
+        const secondAlone = alone(secondAgonistId)
+        if (!firstAlone || !secondAlone) return []
+        const points = groups
+            .filter(g => g.agonistId === agonistId && g.secondAgonistId === secondAgonistId)
+            .flatMap((g): IsobolePoint[] => {
+                const firstConcentration = interpolateEffectiveConcentration(g.records, effect)
+                if (!firstConcentration) return []
+                const secondConcentration = firstConcentration * g.combinationRatio
+                return [{
+                    combinationRatio: g.combinationRatio,
+                    interaction: g.interaction,
+                    firstConcentration,
+                    secondConcentration,
+                    combinationIndex: firstConcentration / firstAlone + secondConcentration / secondAlone,
+                }]
+            })
+        return [{ agonistId, secondAgonistId, effect, firstAlone, secondAlone, points }]
+    })
+}
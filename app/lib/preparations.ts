@@ -0,0 +1,238 @@
+// Library of isolated tissue preparations. Each preparation has its own bath,
+// the agonists and antagonists used on it, and how they behave on that tissue.
+// Agonist concentrations are in µg/mL, antagonist concentrations in µM.
+
+import { KineticProfile } from './kinetics'
+import { SpontaneousRhythm } from './rhythm'
+
+// How an agonist behaves on one preparation
+export interface AgonistProfile {
+    agonistId: string
+    // Receptor it acts on here; antagonists only block agonists at their receptor
+    receptor: string
+    ec50: number
+    hillCoefficient: number
+    // Maximal response relative to a full agonist (α); below 1 for partial agonists
+    intrinsicActivity: number
+    kinetics: KineticProfile
+}
+
+export interface AntagonistProfile {
+    antagonistId: string
+    // Receptor blocked on this tissue; omitted for non-specific (functional) blockers
+    receptor?: string
+    // −log10 of the molar dissociation constant: pA2 for competitive
+    // blockers, pD2' for non-competitive ones
+    pKB: number
+    // Bath concentrations offered, µM
+    concentrations: number[]
+}
+
+export interface PreparationTheory {
+    introduction: string
+    // Dissection and mounting steps that open the procedure
+    mounting: string[]
+    // Example range of bath concentrations of the main agonist
+    doseRange: string
+    precautions: string[]
+}
+
+export interface TissuePreparation {
+    id: string
+    name: string
+    species: string
+    // Organ bath volume, mL
+    bathVolume: number
+    // Maximal active tension on an isometric transducer, g
+    maxForce: number
+    // Standard physiological solution (see SOLUTIONS in bath.ts)
+    solutionId: string
+    temperature: number
+    agonists: AgonistProfile[]
+    // Agonist the control curve is drawn with
+    primaryAgonistId: string
+    antagonists: AntagonistProfile[]
+    // Stock solutions of the agonist offered in the setup, µg/mL
+    stockConcentrations: number[]
+    // Range the hidden unknown of a bioassay is drawn from, µg/mL
+    unknownRange: { min: number; max: number }
+    // Spontaneous activity of the tissue; omitted for quiescent preparations
+    rhythm?: SpontaneousRhythm
+    theory: PreparationTheory
+}
+
+const FROG_ANTAGONIST_CONCENTRATIONS = [0.3, 1, 3, 10, 30]
+const HIGH_AFFINITY_CONCENTRATIONS = [0.001, 0.003, 0.01, 0.03, 0.1]
+
+export const PREPARATIONS: TissuePreparation[] = [
+    {
+        id: 'frog-rectus',
+        name: 'Frog Rectus Abdominis Muscle',
+        species: 'Frog',
+        bathVolume: 20,
+        maxForce: 4,
+        solutionId: 'frog-ringer',
+        temperature: 25,
+        // For ACh this naturally produces different (but close) responses for
+        // 0.8 vs 1.6 mL because the Hill curve plateaus near Emax.
+        agonists: [
+            { agonistId: 'acetylcholine', receptor: 'nicotinic', ec50: 0.15, hillCoefficient: 1.5, intrinsicActivity: 1, kinetics: { latency: 2, timeToPeak: 12, relaxationHalfTime: 3 } },
+            { agonistId: 'decamethonium', receptor: 'nicotinic', ec50: 0.6, hillCoefficient: 1.2, intrinsicActivity: 0.55, kinetics: { latency: 4, timeToPeak: 20, relaxationHalfTime: 8 } },
+        ],
+        primaryAgonistId: 'acetylcholine',
+        antagonists: [
+            // Atropine is a weak blocker of the muscle's nicotinic receptors
+            { antagonistId: 'atropine', receptor: 'nicotinic', pKB: 5.0, concentrations: FROG_ANTAGONIST_CONCENTRATIONS },
+            { antagonistId: 'd-tubocurarine', receptor: 'nicotinic', pKB: 6.8, concentrations: FROG_ANTAGONIST_CONCENTRATIONS },
+            { antagonistId: 'papaverine', pKB: 5.0, concentrations: FROG_ANTAGONIST_CONCENTRATIONS },
+        ],
+        stockConcentrations: [20, 50, 100, 200, 400],
+        unknownRange: { min: 25, max: 300 },
+        theory: {
+            introduction: 'The experiment demonstrates the dose-response relationship of acetylcholine (ACh) on the frog rectus abdominis muscle. ACh binds to nicotinic receptors, causing a slow, sustained contracture. The response is recorded on a kymograph, showing increasing contraction with higher doses until a maximum is reached. This curve is used to determine potency (EC50) and efficacy.',
+            mounting: [
+                'Dissect the frog and isolate the rectus abdominis muscle.',
+                'Mount the muscle in an organ bath containing aerated frog Ringer\'s solution at room temperature.',
+            ],
+            doseRange: '0.05 to 0.8 µg/mL',
+            precautions: [
+                'Use fresh frog preparation to avoid fatigue.',
+                'Maintain constant temperature (25-30°C) and aeration.',
+            ],
+        },
+    },
+    {
+        id: 'guinea-pig-ileum',
+        name: 'Guinea-Pig Ileum',
+        species: 'Guinea pig',
+        bathVolume: 10,
+        maxForce: 2,
+        solutionId: 'tyrode',
+        temperature: 37,
+        agonists: [
+            { agonistId: 'histamine', receptor: 'H1', ec50: 0.02, hillCoefficient: 1.3, intrinsicActivity: 1, kinetics: { latency: 1, timeToPeak: 6, relaxationHalfTime: 2 } },
+            { agonistId: 'acetylcholine', receptor: 'muscarinic', ec50: 0.005, hillCoefficient: 1.4, intrinsicActivity: 1, kinetics: { latency: 1, timeToPeak: 5, relaxationHalfTime: 2 } },
+        ],
+        primaryAgonistId: 'histamine',
+        antagonists: [
+            { antagonistId: 'mepyramine', receptor: 'H1', pKB: 9.3, concentrations: HIGH_AFFINITY_CONCENTRATIONS },
+            { antagonistId: 'atropine', receptor: 'muscarinic', pKB: 8.9, concentrations: HIGH_AFFINITY_CONCENTRATIONS },
+            { antagonistId: 'papaverine', pKB: 5.5, concentrations: FROG_ANTAGONIST_CONCENTRATIONS },
+        ],
+        stockConcentrations: [0.5, 1, 2, 5, 10],
+        unknownRange: { min: 0.8, max: 8 },
+        theory: {
+            introduction: 'Histamine contracts the longitudinal smooth muscle of the guinea-pig ileum through H1 receptors. The ileum is quiescent and very sensitive, giving quick, reproducible contractions that relax promptly on washing, which makes it the classical preparation for histamine assays and for the H1 blocker mepyramine. Acetylcholine contracts the same tissue through muscarinic receptors.',
+            mounting: [
+                'Sacrifice a fasted guinea pig, remove a 2-3 cm piece of ileum close to the ileo-caecal junction and flush out its contents.',
+                'Mount the ileum in an organ bath containing Tyrode solution at 37°C, aerated with air.',
+            ],
+            doseRange: '0.005 to 0.2 µg/mL',
+            precautions: [
+                'Use a fresh segment of ileum for each series and discard the segment nearest the caecum.',
+                'Maintain the bath at 37°C with continuous aeration.',
+                'Keep the contact time short (about 30 s); the ileum fatigues with prolonged exposure.',
+            ],
+        },
+    },
+    {
+        id: 'rat-uterus',
+        name: 'Rat Uterus',
+        species: 'Rat',
+        bathVolume: 10,
+        maxForce: 3,
+        solutionId: 'de-jalon',
+        temperature: 32,
+        agonists: [
+            { agonistId: 'oxytocin', receptor: 'OT', ec50: 0.001, hillCoefficient: 1.6, intrinsicActivity: 1, kinetics: { latency: 5, timeToPeak: 25, relaxationHalfTime: 15 } },
+        ],
+        primaryAgonistId: 'oxytocin',
+        antagonists: [
+            { antagonistId: 'atosiban', receptor: 'OT', pKB: 7.7, concentrations: [0.01, 0.03, 0.1, 0.3, 1] },
+            { antagonistId: 'papaverine', pKB: 5.5, concentrations: FROG_ANTAGONIST_CONCENTRATIONS },
+        ],
+        stockConcentrations: [0.02, 0.05, 0.1, 0.2, 0.5],
+        unknownRange: { min: 0.03, max: 0.4 },
+        rhythm: { frequency: 2, amplitude: 12 },
+        theory: {
+            introduction: 'Oxytocin contracts the uterine smooth muscle through oxytocin receptors. A uterine horn from a rat in oestrus, or primed with stilboestrol, responds to very small amounts of oxytocin and is used to assay posterior pituitary extracts against a standard.',
+            mounting: [
+                'Prime a virgin female rat with stilboestrol 24 h earlier, sacrifice it and remove one uterine horn.',
+                'Mount the horn in an organ bath containing De Jalon\'s solution at 32°C, aerated with air.',
+            ],
+            doseRange: '0.0002 to 0.01 µg/mL',
+            precautions: [
+                'Use De Jalon\'s solution (low calcium) and keep the bath at 32°C to suppress spontaneous contractions.',
+                'Allow the preparation to settle for 30 minutes before the first dose.',
+            ],
+        },
+    },
+    {
+        id: 'rat-fundus',
+        name: 'Rat Fundus Strip',
+        species: 'Rat',
+        bathVolume: 10,
+        maxForce: 1.5,
+        solutionId: 'tyrode',
+        temperature: 37,
+        agonists: [
+            { agonistId: 'serotonin', receptor: '5-HT2', ec50: 0.0005, hillCoefficient: 1.2, intrinsicActivity: 1, kinetics: { latency: 3, timeToPeak: 15, relaxationHalfTime: 8 } },
+        ],
+        primaryAgonistId: 'serotonin',
+        antagonists: [
+            { antagonistId: 'methysergide', receptor: '5-HT2', pKB: 8.5, concentrations: HIGH_AFFINITY_CONCENTRATIONS },
+            { antagonistId: 'papaverine', pKB: 5.5, concentrations: FROG_ANTAGONIST_CONCENTRATIONS },
+        ],
+        stockConcentrations: [0.005, 0.01, 0.02, 0.05, 0.1],
+        unknownRange: { min: 0.008, max: 0.08 },
+        theory: {
+            introduction: '5-Hydroxytryptamine (5-HT, serotonin) contracts the smooth muscle of the rat gastric fundus through 5-HT2 receptors. The fundus strip is one of the most sensitive preparations for 5-HT, responding to nanogram quantities, and its response is blocked competitively by methysergide.',
+            mounting: [
+                'Sacrifice a rat, remove the stomach and cut the fundus into a zig-zag strip (Vane\'s method).',
+                'Mount the strip in an organ bath containing Tyrode solution at 37°C, aerated with air.',
+            ],
+            doseRange: '0.0001 to 0.005 µg/mL',
+            precautions: [
+                'Cut the strip carefully so the muscle fibres run along its length.',
+                'Maintain the bath at 37°C with continuous aeration.',
+            ],
+        },
+    },
+    {
+        id: 'rabbit-jejunum',
+        name: 'Rabbit Jejunum',
+        species: 'Rabbit',
+        bathVolume: 20,
+        maxForce: 2.5,
+        solutionId: 'tyrode',
+        temperature: 37,
+        agonists: [
+            { agonistId: 'acetylcholine', receptor: 'muscarinic', ec50: 0.02, hillCoefficient: 1.3, intrinsicActivity: 1, kinetics: { latency: 1, timeToPeak: 6, relaxationHalfTime: 3 } },
+        ],
+        primaryAgonistId: 'acetylcholine',
+        antagonists: [
+            { antagonistId: 'atropine', receptor: 'muscarinic', pKB: 9.0, concentrations: HIGH_AFFINITY_CONCENTRATIONS },
+            { antagonistId: 'papaverine', pKB: 5.5, concentrations: FROG_ANTAGONIST_CONCENTRATIONS },
+        ],
+        stockConcentrations: [1, 2, 5, 10, 20],
+        unknownRange: { min: 1.5, max: 15 },
+        rhythm: { frequency: 12, amplitude: 8 },
+        theory: {
+            introduction: 'The rabbit jejunum shows spontaneous rhythmic pendular contractions. Acetylcholine increases the tone and amplitude of these movements through muscarinic receptors, an effect abolished by atropine, while adrenaline relaxes the gut and stops the rhythm.',
+            mounting: [
+                'Sacrifice a rabbit, remove a 2-3 cm piece of jejunum and flush out its contents with Tyrode solution.',
+                'Mount the jejunum in an organ bath containing Tyrode solution at 37°C, aerated with air or oxygen.',
+            ],
+            doseRange: '0.005 to 0.5 µg/mL',
+            precautions: [
+                'Record the spontaneous movements for a few minutes before adding any drug.',
+                'Maintain the bath at 37°C with continuous aeration.',
+            ],
+        },
+    },
+]
+
+export const DEFAULT_PREPARATION_ID = 'frog-rectus'
+
+export const findPreparation = (id: string | null | undefined) =>
+    PREPARATIONS.find(p => p.id === (id ?? DEFAULT_PREPARATION_ID)) ?? PREPARATIONS[0]
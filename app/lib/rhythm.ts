@@ -0,0 +1,49 @@
+// Spontaneous rhythmic activity of smooth-muscle preparations (pendular
+// movements of the gut, uterine contractions). The rhythm rides on top of the
+// lever position; drugs in the bath scale its amplitude. Amplitudes are in %
+// of full-scale response, modulator concentrations in µg/mL.
+
+export interface SpontaneousRhythm {
+    // Contractions per simulated minute
+    frequency: number
+    amplitude: number
+}
+
+export const NO_RHYTHM: SpontaneousRhythm = { frequency: 0, amplitude: 0 }
+
+export const hasRhythm = (rhythm: SpontaneousRhythm) => rhythm.frequency > 0 && rhythm.amplitude > 0
+
+// Size of the spontaneous contraction `t` simulated seconds after mounting:
+// brief phasic twitches separated by rest rather than a pure sine wave
+export const spontaneousContraction = (rhythm: SpontaneousRhythm, t: number, amplitudeFactor = 1) => {
+    if (!hasRhythm(rhythm)) return 0
+    const phase = (t * rhythm.frequency) / 60
+    return rhythm.amplitude * Math.max(0, amplitudeFactor) * Math.pow((1 - Math.cos(2 * Math.PI * phase)) / 2, 2)
+}
+
+// Drugs that act on the rhythm rather than on the agonist receptors
+export interface RhythmModulator {
+    id: string
+    name: string
+    shortName: string
+    molecularWeight: number
+    // Bath concentration halving the amplitude, µg/mL
+    ic50: number
+    hillCoefficient: number
+    concentrations: number[]
+}
+
+export const RHYTHM_MODULATORS: RhythmModulator[] = [
+    // β and α receptors on the smooth muscle relax it and stop the rhythm
+    { id: 'adrenaline', name: 'Adrenaline', shortName: 'Adr', molecularWeight: 183.2, ic50: 0.005, hillCoefficient: 1.5, concentrations: [0.001, 0.003, 0.01, 0.03, 0.1] },
+]
+
+export const findRhythmModulator = (id: string | null | undefined) =>
+    RHYTHM_MODULATORS.find(m => m.id === id)
+
+// Fraction of the rhythm's amplitude left with the modulator in the bath
+export const rhythmModulation = (modulatorId: string | null | undefined, concentration = 0) => {
+    const modulator = findRhythmModulator(modulatorId)
+    if (!modulator || concentration <= 0) return 1
+    return 1 / (1 + Math.pow(concentration / modulator.ic50, modulator.hillCoefficient))
+}
@@ -0,0 +1,75 @@
+// Overdose: far above its effective range an agonist throws the muscle into
+// contracture and injures it. Part of the injury is lost again once the drug is
+// washed out; the rest is permanent until a fresh preparation is mounted.
+// Concentrations are bath concentrations in µg/mL, times simulated minutes.
+
+// Bath concentrations above this many EC50s are toxic
+export const TOXIC_THRESHOLD = 1000
+
+// Injury per simulated minute of exposure at the threshold; every tenfold
+// above it adds the same again
+export const INJURY_RATE = 0.2
+
+// Share of an injury that does not recover on washing
+export const IRREVERSIBLE_FRACTION = 0.5
+
+// Resting tone (% of full scale) left by a completely irreversible injury
+export const CONTRACTURE_TONE = 30
+
+// Below this responsiveness the preparation is no longer usable
+export const USABLE_RESPONSIVENESS = 0.2
+
+// Multiples of the strongest standard stock and largest standard volume
+// offered beyond the usual range
+export const OVERDOSE_STOCK_MULTIPLES = [10, 100]
+export const OVERDOSE_VOLUMES = [2, 4]
+
+// Fractions of the responsiveness lost, recoverable or not
+export interface TissueDamage {
+    reversible: number
+    irreversible: number
+}
+
+export const NO_DAMAGE: TissueDamage = { reversible: 0, irreversible: 0 }
+
+// What went wrong, recorded on the observation of the dose that caused it
+export type ToxicEventKind = 'contracture' | 'left-in-bath'
+
+export interface ToxicEvent {
+    kind: ToxicEventKind
+    // Fraction of the remaining responsiveness lost
+    injury: number
+}
+
+export const overdoseStocks = (stocks: number[]) =>
+    OVERDOSE_STOCK_MULTIPLES.map(m => stocks[stocks.length - 1] * m)
+
+export const isToxic = (concInBath: number, ec50: number) => concInBath > ec50 * TOXIC_THRESHOLD
+
+// Fraction of the remaining responsiveness lost after `minutes` at this concentration
+export const toxicInjury = (concInBath: number, ec50: number, minutes: number) => {
+    if (!isToxic(concInBath, ec50) || minutes <= 0) return 0
+    const excess = Math.log10(concInBath / (ec50 * TOXIC_THRESHOLD))
+    return 1 - Math.exp(-INJURY_RATE * (1 + excess) * minutes)
+}
+
+export const tissueResponsiveness = (damage: TissueDamage) =>
+    Math.max(0, 1 - damage.reversible - damage.irreversible)
+
+// Adds an injury to what is left of the tissue, split into its two parts
+export const addInjury = (damage: TissueDamage, injury: number): TissueDamage => {
+    const lost = tissueResponsiveness(damage) * Math.max(0, Math.min(1, injury))
+    return {
+        reversible: damage.reversible + lost * (1 - IRREVERSIBLE_FRACTION),
+        irreversible: damage.irreversible + lost * IRREVERSIBLE_FRACTION,
+    }
+}
+
+// Washing the drug out lets the tissue recover what it can
+export const recoverOnWash = (damage: TissueDamage): TissueDamage => ({ reversible: 0, irreversible: damage.irreversible })
+
+// Residual contracture (% of full scale) the lever no longer relaxes from
+export const contractureTone = (damage: TissueDamage) => CONTRACTURE_TONE * damage.irreversible
+
+export const describeToxicEvent = (event: ToxicEvent) =>
+    `${event.kind === 'contracture' ? 'Contracture' : 'Left in bath'}, −${Math.round(event.injury * 100)}% responsiveness`
@@ -0,0 +1,208 @@
+// Kymograph traces kept as vectors rather than images. Each drawable area holds
+// the pen's path across the paper, sample by sample in canvas px, the labels
+// written beside it and the ticks of the time-marker pen along the bottom;
+// the canvas is painted from this at any scale. Doses and washes are kept
+// once for the whole recording, with the notch the event marker made for them
+// on each area.
+
+export interface TracePoint {
+    x: number
+    y: number
+}
+
+export interface TraceLabel extends TracePoint {
+    text: string
+}
+
+// A tick of the time marker, every TIME_MARK_INTERVAL s of drum travel
+export interface TimeMark {
+    x: number
+    major: boolean
+}
+
+export interface AreaTrace {
+    // The pen never leaves the paper, so one continuous path
+    samples: TracePoint[]
+    labels: TraceLabel[]
+    marks: TimeMark[]
+}
+
+export const EMPTY_TRACE: AreaTrace = { samples: [], labels: [], marks: [] }
+
+export type RecordingEventKind = 'dose' | 'sample' | 'wash'
+
+export interface RecordingEvent {
+    kind: RecordingEventKind
+    // Written at the notch: dose and volume, or "W" for a wash
+    label: string
+    // Drum time (s) when it happened
+    drumTime: number
+    // Observation rows a dose produced, one per recorded channel
+    sNos?: number[]
+    // Position of the notch on each area's paper (px), keyed by area id
+    x: Record<string, number>
+}
+
+// Seconds between time marks, and every how many seconds a longer one falls
+export const TIME_MARK_INTERVAL = 5
+export const MAJOR_TIME_MARK = 30
+
+// Samples nearer than this (px) to the last one add nothing to the line
+export const MIN_SAMPLE_DISTANCE = 0.5
+
+const PEN_COLOR = '#ffffff'
+const PEN_WIDTH = 2
+// The paper's grid lines, 1 cm apart along the drum at PX_PER_MM
+export const GRID_SPACING = 50
+// Height (px) of the marker's baseline above the bottom edge, and of its ticks
+const MARK_BASELINE = 4
+const MARK_HEIGHT = 6
+const MAJOR_MARK_HEIGHT = 12
+// The event marker writes above the time marker and notches downwards
+const EVENT_BASELINE = 28
+const EVENT_NOTCH = 8
+const HIGHLIGHT_COLOR = '#facc15'
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+export const lastSample = (trace: AreaTrace | undefined): TracePoint | null =>
+    trace && trace.samples.length > 0 ? trace.samples[trace.samples.length - 1] : null
+
+export const lastMark = (trace: AreaTrace | undefined): TimeMark | null =>
+    trace && trace.marks.length > 0 ? trace.marks[trace.marks.length - 1] : null
+
+// A level stretch, as the drum turns under a resting lever, keeps only its ends
+export const appendSample = (trace: AreaTrace, point: TracePoint): AreaTrace => {
+    const last = lastSample(trace)
+    if (last && Math.hypot(point.x - last.x, point.y - last.y) < MIN_SAMPLE_DISTANCE) return trace
+    const sample = { x: round(point.x), y: round(point.y) }
+    const before = trace.samples.length > 1 ? trace.samples[trace.samples.length - 2] : null
+    if (last && before && before.y === last.y && last.y === sample.y) {
+        return { ...trace, samples: [...trace.samples.slice(0, -1), sample] }
+    }
+    return { ...trace, samples: [...trace.samples, sample] }
+}
+
+export const appendLabel = (trace: AreaTrace, label: TraceLabel): AreaTrace =>
+    ({ ...trace, labels: [...trace.labels, { ...label, x: round(label.x), y: round(label.y) }] })
+
+export const appendMarks = (trace: AreaTrace, marks: TimeMark[]): AreaTrace =>
+    marks.length === 0 ? trace : { ...trace, marks: [...trace.marks, ...marks.map(m => ({ ...m, x: round(m.x) }))] }
+
+export const mergeTraces = (first: AreaTrace | undefined, second: AreaTrace | undefined): AreaTrace => ({
+    samples: [...(first?.samples ?? []), ...(second?.samples ?? [])],
+    labels: [...(first?.labels ?? []), ...(second?.labels ?? [])],
+    marks: [...(first?.marks ?? []), ...(second?.marks ?? [])],
+})
+
+// Marks due as the drum turns from `from` to `to` seconds (the end included);
+// `xAt` gives where a drum time falls on the paper
+export const timeMarksBetween = (from: number, to: number, xAt: (t: number) => number): TimeMark[] => {
+    const marks: TimeMark[] = []
+    for (let t = (Math.floor(from / TIME_MARK_INTERVAL) + 1) * TIME_MARK_INTERVAL; t <= to; t += TIME_MARK_INTERVAL) {
+        marks.push({ x: xAt(t), major: t % MAJOR_TIME_MARK === 0 })
+    }
+    return marks
+}
+
+// Smoked paper with its grid; `scale` maps canvas px to the trace's px
+export const drawPaper = (ctx: CanvasRenderingContext2D, width: number, height: number, color: string, scale = 1) => {
+    ctx.fillStyle = color
+    ctx.fillRect(0, 0, width, height)
+    ctx.strokeStyle = '#000000'
+    ctx.lineWidth = 1
+    const spacing = GRID_SPACING * scale
+    for (let x = 0; x < width; x += spacing) {
+        ctx.beginPath()
+        ctx.moveTo(x, 0)
+        ctx.lineTo(x, height)
+        ctx.stroke()
+    }
+    for (let y = 0; y < height; y += spacing) {
+        ctx.beginPath()
+        ctx.moveTo(0, y)
+        ctx.lineTo(width, y)
+        ctx.stroke()
+    }
+}
+
+const setPen = (ctx: CanvasRenderingContext2D, scale: number) => {
+    ctx.strokeStyle = PEN_COLOR
+    ctx.lineWidth = PEN_WIDTH * scale
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+}
+
+export const drawSegment = (ctx: CanvasRenderingContext2D, from: TracePoint, to: TracePoint, scale = 1) => {
+    setPen(ctx, scale)
+    ctx.beginPath()
+    ctx.moveTo(from.x * scale, from.y * scale)
+    ctx.lineTo(to.x * scale, to.y * scale)
+    ctx.stroke()
+}
+
+export const drawLabel = (ctx: CanvasRenderingContext2D, label: TraceLabel, scale = 1) => {
+    ctx.font = `${12 * scale}px sans-serif`
+    ctx.fillStyle = PEN_COLOR
+    ctx.textAlign = 'center'
+    ctx.fillText(label.text, label.x * scale, label.y * scale)
+}
+
+// A tick and the marker's baseline back to the previous tick
+export const drawTimeMark = (ctx: CanvasRenderingContext2D, mark: TimeMark, previous: TimeMark | null, scale = 1) => {
+    const baseline = ctx.canvas.height - MARK_BASELINE * scale
+    ctx.strokeStyle = PEN_COLOR
+    ctx.lineWidth = scale
+    ctx.lineCap = 'butt'
+    ctx.beginPath()
+    ctx.moveTo((previous ?? mark).x * scale, baseline)
+    ctx.lineTo(mark.x * scale, baseline)
+    ctx.lineTo(mark.x * scale, baseline - (mark.major ? MAJOR_MARK_HEIGHT : MARK_HEIGHT) * scale)
+    ctx.stroke()
+}
+
+// A labelled notch and the event marker's baseline back to the previous one
+export const drawEventMark = (ctx: CanvasRenderingContext2D, x: number, label: string, previousX: number | null, scale = 1, highlighted = false) => {
+    const baseline = ctx.canvas.height - EVENT_BASELINE * scale
+    ctx.strokeStyle = PEN_COLOR
+    ctx.lineWidth = scale
+    ctx.lineCap = 'butt'
+    ctx.beginPath()
+    ctx.moveTo((previousX ?? x) * scale, baseline)
+    ctx.lineTo(x * scale, baseline)
+    ctx.lineTo(x * scale, baseline + EVENT_NOTCH * scale)
+    ctx.stroke()
+    ctx.font = `${10 * scale}px sans-serif`
+    ctx.fillStyle = highlighted ? HIGHLIGHT_COLOR : PEN_COLOR
+    ctx.textAlign = 'left'
+    ctx.fillText(label, (x + 3) * scale, baseline - 3 * scale)
+}
+
+// The notches of the events that reached this area; `highlightSNo` picks out
+// the dose of one observation row
+export const drawEvents = (ctx: CanvasRenderingContext2D, events: RecordingEvent[], areaId: string, scale = 1, highlightSNo: number | null = null) => {
+    let previousX: number | null = null
+    events.forEach(event => {
+        const x = event.x[areaId]
+        if (x === undefined) return
+        drawEventMark(ctx, x, event.label, previousX, scale, highlightSNo !== null && !!event.sNos?.includes(highlightSNo))
+        previousX = x
+    })
+}
+
+export const lastEventX = (events: RecordingEvent[], areaId: string) => {
+    const event = [...events].reverse().find(e => e.x[areaId] !== undefined)
+    return event ? event.x[areaId] : null
+}
+
+export const drawTrace = (ctx: CanvasRenderingContext2D, trace: AreaTrace, scale = 1) => {
+    if (trace.samples.length > 1) {
+        setPen(ctx, scale)
+        ctx.beginPath()
+        ctx.moveTo(trace.samples[0].x * scale, trace.samples[0].y * scale)
+        trace.samples.slice(1).forEach(p => ctx.lineTo(p.x * scale, p.y * scale))
+        ctx.stroke()
+    }
+    trace.labels.forEach(label => drawLabel(ctx, label, scale))
+    trace.marks.forEach((mark, i) => drawTimeMark(ctx, mark, i > 0 ? trace.marks[i - 1] : null, scale))
+}
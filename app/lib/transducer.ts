@@ -0,0 +1,40 @@
+// Isometric recording: the tissue pulls on a force transducer instead of
+// shortening against an isotonic lever. The transducer gives a signal in mV
+// whose gain is not known until a known weight has been hung on it.
+
+import { createRandom } from './variability'
+
+export type RecordingMode = 'isotonic' | 'isometric'
+
+// Weights (g) offered for calibration
+export const CALIBRATION_WEIGHTS = [0.5, 1, 2, 5]
+export const DEFAULT_CALIBRATION_WEIGHT = 1
+
+// Nominal output, mV per gram of tension; each session's amplifier differs
+export const NOMINAL_SENSITIVITY = 10
+
+export const transducerSensitivity = (seed: number) => {
+    const random = createRandom((seed ^ 0x165667b1) >>> 0)
+    return NOMINAL_SENSITIVITY * (0.8 + 0.4 * random())
+}
+
+// Calibration: the signal recorded with a known weight on the transducer
+export interface TransducerCalibration {
+    weight: number
+    signal: number
+}
+
+// One point of the physiograph trace; `t` is simulated seconds of chart paper
+export interface ForceSample {
+    t: number
+    signal: number
+}
+
+// Simulated seconds between physiograph samples
+export const SAMPLE_INTERVAL = 0.5
+
+// Simulated seconds the calibration weight hangs before it is lifted off
+export const CALIBRATION_HOLD = 5
+
+export const signalToGrams = (signal: number, calibration: TransducerCalibration) =>
+    (signal * calibration.weight) / calibration.signal
@@ -0,0 +1,60 @@
+// Concentration units for display. The simulator stores every agonist
+// concentration in µg/mL; molar units need the drug's molecular weight (g/mol).
+// 1 µg/mL = 1 mg/L = 1e-3 g/L, i.e. 1e-3 / MW mol/L.
+
+export type ConcentrationUnit = 'µg/mL' | 'ng/mL' | 'M' | 'mM' | 'µM' | 'log M'
+
+export const CONCENTRATION_UNITS: ConcentrationUnit[] = ['µg/mL', 'ng/mL', 'M', 'mM', 'µM', 'log M']
+
+export const DEFAULT_CONCENTRATION_UNIT: ConcentrationUnit = 'µg/mL'
+
+// Multiplier taking µg/mL to the unit; 'log M' shares the factor of 'M' and
+// takes the logarithm afterwards
+export const concentrationFactor = (unit: ConcentrationUnit, molecularWeight: number) => {
+    switch (unit) {
+        case 'µg/mL': return 1
+        case 'ng/mL': return 1e3
+        case 'mM': return 1 / molecularWeight
+        case 'µM': return 1e3 / molecularWeight
+        default: return 1e-3 / molecularWeight
+    }
+}
+
+// Unit of a linear axis: log M falls back to M
+export const linearUnit = (unit: ConcentrationUnit): ConcentrationUnit => (unit === 'log M' ? 'M' : unit)
+
+export const convertConcentration = (value: number, unit: ConcentrationUnit, molecularWeight: number) => {
+    const converted = value * concentrationFactor(unit, molecularWeight)
+    return unit === 'log M' ? Math.log10(converted) : converted
+}
+
+// Back to µg/mL from a value entered in the unit
+export const toMicrogramsPerMl = (value: number, unit: ConcentrationUnit, molecularWeight: number) =>
+    (unit === 'log M' ? Math.pow(10, value) : value) / concentrationFactor(unit, molecularWeight)
+
+// log10 of the concentration in the unit, for log-dose axes (log M and M agree)
+export const logConcentration = (value: number, unit: ConcentrationUnit, molecularWeight: number) =>
+    Math.log10(value * concentrationFactor(unit, molecularWeight))
+
+// Added to a log10 molar value to put it on the unit's log axis
+export const logMolarOffset = (unit: ConcentrationUnit, molecularWeight: number) =>
+    Math.log10(concentrationFactor(unit, molecularWeight) / concentrationFactor('M', molecularWeight))
+
+// `decimals` applies to µg/mL; the other units keep about three significant figures
+export const formatConcentration = (value: number, unit: ConcentrationUnit, molecularWeight: number, decimals = 4) => {
+    const converted = convertConcentration(value, unit, molecularWeight)
+    if (!isFinite(converted)) return '—'
+    switch (unit) {
+        case 'µg/mL': return converted.toFixed(decimals)
+        case 'ng/mL': return converted.toFixed(Math.max(0, decimals - 3))
+        case 'log M': return converted.toFixed(2)
+        case 'M': return converted.toExponential(2)
+        default: return Number(converted.toPrecision(3)).toString()
+    }
+}
+
+export const logAxisLabel = (unit: ConcentrationUnit, what = 'Concentration in Bath') =>
+    `Log₁₀(${what}, ${linearUnit(unit)})`
+
+export const linearAxisLabel = (unit: ConcentrationUnit, what = 'Concentration in Bath') =>
+    `${what} (${linearUnit(unit)})`
@@ -0,0 +1,67 @@
+// Seeded biological variability: every tissue preparation draws its own
+// sensitivity, slope and maximal response, so no two students record the same
+// curve. The same seed always reproduces the same preparation and responses.
+
+export interface VariabilityConfig {
+    // Log-normal spread of EC50 (σ of ln EC50)
+    ec50CV: number
+    // Coefficient of variation of the Hill slope
+    hillCV: number
+    // Spread of the maximal response below the nominal Emax
+    emaxCV: number
+    // Coefficient of variation of the response-to-response noise
+    noiseCV: number
+}
+
+export const DEFAULT_VARIABILITY: VariabilityConfig = {
+    ec50CV: 0.25,
+    hillCV: 0.1,
+    emaxCV: 0.05,
+    noiseCV: 0.03,
+}
+
+// Multipliers applied to the nominal drug parameters for one preparation
+export interface TissueProfile {
+    ec50Factor: number
+    hillFactor: number
+    emaxFactor: number
+}
+
+export const NOMINAL_TISSUE: TissueProfile = { ec50Factor: 1, hillFactor: 1, emaxFactor: 1 }
+
+export const createSeed = () => Math.floor(Math.random() * 2 ** 31)
+
+// mulberry32: small, fast 32-bit PRNG returning floats in [0, 1)
+export const createRandom = (seed: number) => {
+    let a = seed >>> 0
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0
+        let t = a
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+// Standard normal deviate (Box–Muller)
+export const randomNormal = (random: () => number) => {
+    const u = Math.max(random(), Number.EPSILON)
+    const v = random()
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+export const drawTissueProfile = (seed: number, config: VariabilityConfig = DEFAULT_VARIABILITY): TissueProfile => {
+    const random = createRandom(seed)
+    return {
+        ec50Factor: Math.exp(config.ec50CV * randomNormal(random)),
+        hillFactor: Math.max(0.5, 1 + config.hillCV * randomNormal(random)),
+        emaxFactor: Math.max(0.6, 1 - Math.abs(config.emaxCV * randomNormal(random))),
+    }
+}
+
+// Multiplicative noise for the n-th response of a session. Derived from the
+// seed and the response index so a replayed session gives identical values.
+export const responseNoise = (seed: number, index: number, config: VariabilityConfig = DEFAULT_VARIABILITY) => {
+    const random = createRandom((seed ^ Math.imul(index + 1, 0x9e3779b1)) >>> 0)
+    return Math.max(0, 1 + config.noiseCV * randomNormal(random))
+}
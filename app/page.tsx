@@ -34,7 +34,7 @@ export default function Home() {
             <div className="bg-gradient-to-br from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white rounded-xl p-8 cursor-pointer transition-all transform hover:scale-105 shadow-lg">
               <h2 className="text-2xl font-bold mb-3">Experiment 1</h2>
               <p className="text-green-100">
-                Acetylcholine DRC Simulation
+                Dose-Response Curves on Isolated Tissues
               </p>
             </div>
           </Link>
@@ -43,7 +43,7 @@ export default function Home() {
             <div className="bg-gradient-to-br from-teal-500 to-cyan-600 hover:from-teal-600 hover:to-cyan-700 text-white rounded-xl p-8 cursor-pointer transition-all transform hover:scale-105 shadow-lg">
               <h2 className="text-2xl font-bold mb-3">Experiment 2</h2>
               <p className="text-teal-100">
-                PD2 Determination for Acetylcholine
+                PD2 Determination of Agonists
               </p>
             </div>
           </Link>
@@ -58,7 +58,7 @@ export default function Home() {
             <li>Set center points for rotation (optional)</li>
             <li>Copy the generated coordinates JSON</li>
             <li>Paste coordinates in the Showcase page to display</li>
-            <li>Use Experiment 1 to simulate the Acetylcholine dose-response curve</li>
+            <li>Use Experiment 1 to simulate dose-response curves on frog rectus, guinea-pig ileum, rat uterus, rat fundus or rabbit jejunum</li>
           </ol>
         </div>
       </div>